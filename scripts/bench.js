@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+// Throughput of the tunnel with each wire framing: JSON with base64 bodies,
+// binary frames, and binary frames with deflate. Runs a relay, a tunnel and a
+// local service in this process, so only the framing differs between rows.
+//
+//   npm run bench
+//   node scripts/bench.js [--requests 200] [--size 256] [--concurrency 8]
+//
+// Needs a build (dist/). `--size` is the body size in KB. Wire bytes are
+// counted on the link between the tunnel and the relay.
+
+'use strict';
+
+const http = require('http');
+const net = require('net');
+const crypto = require('crypto');
+const { startServer } = require('../dist/server');
+const tunnrl = require('../dist/api');
+
+function option(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i === -1 ? fallback : Number(process.argv[i + 1]);
+}
+
+const REQUESTS = option('requests', 200);
+const SIZE = option('size', 256) * 1024;
+const CONCURRENCY = option('concurrency', 8);
+
+const MODES = [
+  { name: 'json', binary: false, compression: false },
+  { name: 'binary', binary: true, compression: false },
+  { name: 'binary+deflate', binary: true, compression: true },
+];
+
+// A JSON API response (compresses well) and random bytes (does not)
+const rows = [];
+while (rows.length * 80 < SIZE) rows.push({ id: rows.length, name: `user-${rows.length}`, email: `user${rows.length}@example.com` });
+const BODIES = {
+  json: Buffer.from(JSON.stringify(rows)).subarray(0, SIZE),
+  random: crypto.randomBytes(SIZE),
+};
+
+const TYPES = { json: 'application/json', random: 'application/octet-stream' };
+
+function listen(server) {
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+}
+
+async function freePort() {
+  const server = net.createServer();
+  const port = await listen(server);
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/** Sits between the tunnel and the relay, counting bytes both ways */
+async function meteredProxy(target) {
+  const counts = { bytes: 0 };
+  const server = net.createServer((client) => {
+    const upstream = net.connect(target, '127.0.0.1');
+    client.on('data', (chunk) => { counts.bytes += chunk.length; });
+    upstream.on('data', (chunk) => { counts.bytes += chunk.length; });
+    client.pipe(upstream).pipe(client);
+    client.on('error', () => upstream.destroy());
+    upstream.on('error', () => client.destroy());
+  });
+  return { server, counts, port: await listen(server) };
+}
+
+function request(port, headers, method, path, body) {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path, headers }, (res) => {
+      let size = 0;
+      res.on('data', (chunk) => { size += chunk.length; });
+      res.on('end', () => (res.statusCode === 200 ? resolve(size) : reject(new Error(`${method} ${path}: ${res.statusCode}`))));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function run(mode, localPort) {
+  const relayPort = await freePort();
+  const relay = await startServer({ port: relayPort, bind: '127.0.0.1', binary: mode.binary, compression: mode.compression });
+  const proxy = await meteredProxy(relayPort);
+  const tunnel = await tunnrl({ port: localPort, server: `ws://127.0.0.1:${proxy.port}` });
+  const host = new URL(tunnel.url).host;
+
+  const results = [];
+  for (const [kind, body] of Object.entries(BODIES)) {
+    for (const direction of ['download', 'upload']) {
+      proxy.counts.bytes = 0;
+      let next = 0;
+      let moved = 0;
+      const started = process.hrtime.bigint();
+      const worker = async () => {
+        while (next++ < REQUESTS) {
+          if (direction === 'download') {
+            // Add after the await: the workers share `moved`
+            const size = await request(relayPort, { host }, 'GET', `/${kind}`);
+            moved += size;
+          } else {
+            await request(relayPort, { host, 'content-type': TYPES[kind] }, 'POST', '/upload', body);
+            moved += body.length;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      results.push({
+        mode: mode.name,
+        body: `${kind} ${direction}`,
+        'MB/s': (moved / 1048576 / seconds).toFixed(1),
+        'req/s': Math.round(REQUESTS / seconds),
+        'wire/body': (proxy.counts.bytes / moved).toFixed(2),
+      });
+    }
+  }
+
+  await tunnel.close();
+  proxy.server.close();
+  await relay.close();
+  return results;
+}
+
+async function main() {
+  const local = http.createServer((req, res) => {
+    const body = BODIES[req.url.slice(1)];
+    if (body) {
+      res.writeHead(200, { 'content-type': TYPES[req.url.slice(1)] });
+      res.end(body);
+      return;
+    }
+    req.resume();
+    req.on('end', () => res.end());
+  });
+  const localPort = await listen(local);
+
+  console.log(`${REQUESTS} requests of ${SIZE / 1024} KB each way, ${CONCURRENCY} at a time\n`);
+  const table = [];
+  for (const mode of MODES) table.push(...(await run(mode, localPort)));
+  console.table(table);
+  local.close();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
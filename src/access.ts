@@ -0,0 +1,139 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import type { Headers } from './protocol';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface AccessRules {
+  /** `user:pass` accepted as HTTP basic auth */
+  auth?: string;
+  /** Token accepted as `Authorization: Bearer <token>` */
+  token?: string;
+  /** Caller addresses allowed through, as CIDR ranges or single IPs */
+  allowIp?: string[];
+}
+
+/** Why a request was turned away; sent back to the caller instead of forwarding */
+export interface AccessDenial {
+  status: 401 | 403;
+  reason: string;
+  headers: Headers;
+}
+
+/** A request turned away before it reached the local service */
+export interface Rejection {
+  requestId: string;
+  method: string;
+  path: string;
+  status: number;
+  reason: string;
+  /**
+   * `access` for auth/token/IP rules (401/403), `rate-limit` (429), `overflow`
+   * when the queue is full (503), `draining` while the tunnel closes (503),
+   * `signature` for webhooks failing `--verify` with `--verify-reject` (401),
+   * `too-large` for bodies over BUFFER_LIMIT that would have to be held whole (413)
+   */
+  cause: 'access' | 'rate-limit' | 'overflow' | 'draining' | 'signature' | 'too-large';
+  remoteAddress: string;
+  /** Set for WebSocket upgrades */
+  upgrade: boolean;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function firstHeader(headers: Headers, name: string): string {
+  const val = headers[name];
+  return Array.isArray(val) ? val[0] ?? '' : val ?? '';
+}
+
+/** Constant-time string comparison for secrets */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/** `::ffff:10.0.0.1` → `10.0.0.1`, so IPv4 ranges match dual-stack sockets */
+function normalizeAddress(address: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+/**
+ * The caller's address as seen by the relay. The relay appends the peer it
+ * accepted to x-forwarded-for, so the last entry is the one that can be
+ * trusted; anything before it was supplied by the caller.
+ */
+export function callerAddress(headers: Headers): string {
+  const raw = Array.isArray(headers['x-forwarded-for'])
+    ? headers['x-forwarded-for'].join(',')
+    : headers['x-forwarded-for'] ?? '';
+  const hops = raw.split(',').map((h) => h.trim()).filter(Boolean);
+  return normalizeAddress(hops[hops.length - 1] ?? '');
+}
+
+// ─── Access control ──────────────────────────────────────────────────────────
+
+/**
+ * Checks each incoming request against basic auth, bearer token and IP
+ * allowlist rules. The IP check runs first (403); when both `auth` and
+ * `token` are set, either credential is accepted (401 otherwise).
+ */
+export class AccessControl {
+  private _allow: net.BlockList | null = null;
+
+  constructor(private _rules: AccessRules) {
+    if (_rules.auth !== undefined && !_rules.auth.includes(':')) {
+      throw new Error('auth must be in the form user:pass');
+    }
+    if (_rules.allowIp && _rules.allowIp.length > 0) {
+      this._allow = new net.BlockList();
+      for (const entry of _rules.allowIp) this._addRange(entry.trim());
+    }
+  }
+
+  /** True when at least one rule is configured */
+  get enabled(): boolean {
+    return Boolean(this._rules.auth || this._rules.token || this._allow);
+  }
+
+  /** Returns null when the request may be forwarded */
+  check(headers: Headers): AccessDenial | null {
+    if (this._allow) {
+      const address = callerAddress(headers);
+      const type = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+      if (!net.isIP(address) || !this._allow.check(address, type)) {
+        return { status: 403, reason: `IP ${address || 'unknown'} not allowed`, headers: {} };
+      }
+    }
+
+    const { auth, token } = this._rules;
+    if (!auth && !token) return null;
+
+    const authorization = firstHeader(headers, 'authorization');
+    const [scheme, credentials = ''] = authorization.split(/\s+/, 2);
+    if (auth && scheme?.toLowerCase() === 'basic') {
+      const decoded = Buffer.from(credentials, 'base64').toString();
+      if (safeEqual(decoded, auth)) return null;
+    }
+    if (token && scheme?.toLowerCase() === 'bearer' && safeEqual(credentials, token)) {
+      return null;
+    }
+
+    const challenge = auth ? 'Basic realm="tunnrl", charset="UTF-8"' : 'Bearer realm="tunnrl"';
+    const reason = authorization ? 'Invalid credentials' : 'Missing credentials';
+    return { status: 401, reason, headers: { 'www-authenticate': challenge } };
+  }
+
+  private _addRange(entry: string): void {
+    const [address, prefixRaw] = entry.split('/');
+    const ip = normalizeAddress(address);
+    const version = net.isIP(ip);
+    const max = version === 6 ? 128 : 32;
+    const prefix = prefixRaw === undefined ? max : Number(prefixRaw);
+    if (!version || !Number.isInteger(prefix) || prefix < 0 || prefix > max) {
+      throw new Error(`Invalid IP range: ${entry}`);
+    }
+    this._allow!.addSubnet(ip, prefix, version === 6 ? 'ipv6' : 'ipv4');
+  }
+}
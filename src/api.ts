@@ -1,15 +1,182 @@
 import { EventEmitter } from 'events';
-import WebSocket from 'ws';
 import * as http from 'http';
-import * as https from 'https';
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CLIENT_FEATURES,
+  FEATURES_HEADER,
+  RegisterErrorCode,
+  SESSION_HEADER,
+  SUBDOMAIN_HEADER,
+  ServerFrame,
+  isValidSubdomain,
+  resolveServerUrl,
+} from './protocol';
+import {
+  BufferedRequest,
+  BufferedResponse,
+  DispatcherOptions,
+  Exchange,
+  Middleware as MiddlewareFn,
+  MiddlewareResult as MiddlewareAnswer,
+  QueuedRequest,
+  StreamDispatcher,
+} from './forward';
+import { AccessControl, Rejection } from './access';
+import { RouteRule, Router, Upstream, localUpstream, parseRoute, parseUpstream } from './routes';
+import { HeaderRule, Rewriter, parseHeaderRule } from './rewrite';
+import { resolveAuthtoken } from './credentials';
+import { UpstreamTls, loadUpstreamTls } from './tls';
+import { FetchHandler, fetchListener, inMemoryConnector } from './memory';
+import { staticUpstream } from './static';
+import { ConcurrencyLimiter, LimitOptions, OverflowMode, RateLimiter, parseLimits } from './limits';
+import { DEFAULT_RESILIENCE, Resilience } from './resilience';
+import { SignatureVerifier, Verification, VerifyRule, checkVerifyRule, parseVerifyRule } from './verify';
+import { FixtureStore, MockFallback, MockMode, parseMockOptions } from './mock';
+import { decodeFrame, negotiatedFraming } from './framing';
+import { MetricsServer, TrafficCounts, TrafficStats, TunnelStats, formatPrometheus } from './metrics';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
+interface RouteOption {
+  /** Path pattern, e.g. `/api/*` (default: any path) */
+  path?: string;
+  /** Public host pattern, e.g. `admin.example.com` or `*.example.com` (default: any host) */
+  host?: string;
+  /** `4000`, `localhost:4000` or `http://localhost:4000` */
+  upstream: string | number;
+  /** Remove the matched path prefix before forwarding */
+  strip_prefix?: boolean;
+}
+
+interface ReconnectOptions {
+  /** Give up after this many failed attempts in a row (default: unlimited) */
+  retries?: number;
+  /** Delay before the first attempt, in ms (default: 1000) */
+  min_delay?: number;
+  /** Longest delay between attempts, in ms (default: 30000) */
+  max_delay?: number;
+  /** Multiplier applied to the delay after each failed attempt (default: 2) */
+  factor?: number;
+}
+
 interface TunnelOptions {
-  /** Local port to expose */
-  port: number;
-  /** Local hostname to forward to (default: localhost) */
+  /** Local port to expose; optional when `routes` covers every request */
+  port?: number;
+  /** Serve requests with this `(req, res)` listener, in process, instead of a port */
+  handler?: http.RequestListener;
+  /** Serve requests with this `http.Server`, in process; it does not need to be listening */
+  app?: http.Server;
+  /** Serve requests with a fetch-style `(request) => response` handler, in process */
+  fetch?: FetchHandler;
+  /** Serve the files in this directory */
+  dir?: string;
+  /** With `dir`, answer unknown paths with index.html (client-side routing) */
+  spa?: boolean;
+  /** With `dir`, list directories that have no index.html (default: true) */
+  listing?: boolean;
+  /** Local hostname to forward to (default: localhost); `https://localhost` for an HTTPS service */
   local_host?: string;
+  /** Accept self-signed certificates from an HTTPS local service */
+  upstream_insecure?: boolean;
+  /** CA certificate to trust, as a file path or PEM */
+  upstream_ca?: string | Buffer;
+  /** Client certificate and key for mutual TLS, as file paths or PEM */
+  upstream_cert?: string | Buffer;
+  upstream_key?: string | Buffer;
+  /** Server name to send and verify instead of the local host */
+  upstream_sni?: string;
+  /** Relay to register with (default: TUNNRL_SERVER or wss://tunnrl.dev/register) */
+  server?: string;
+  /** Subdomain to ask the relay for (default: a random one) */
+  subdomain?: string;
+  /** Auth token for the relay (default: TUNNRL_AUTHTOKEN or the one saved by `tunnrl login`) */
+  authtoken?: string;
+  /** Require HTTP basic auth, as `user:pass` */
+  auth?: string;
+  /** Require `Authorization: Bearer <token>` */
+  token?: string;
+  /** Only accept callers from these CIDR ranges or IPs */
+  allow_ip?: string | string[];
+  /** Send matching requests to other local services; first match wins, `port` takes the rest */
+  routes?: Array<string | RouteOption>;
+  /** Header changes for requests, e.g. `'set X-Env: dev'` or `{ action: 'remove', name: 'cookie' }` */
+  request_headers?: Array<string | HeaderRule>;
+  /** Header changes for responses */
+  response_headers?: Array<string | HeaderRule>;
+  /** Send the public Host header instead of `local_host:port` */
+  preserve_host?: boolean;
+  /** Add permissive CORS headers and answer preflight requests */
+  cors?: boolean;
+  /** Forward at most this many requests at once */
+  max_concurrent?: number;
+  /** Requests that may wait for a slot before new ones get a 503 (default: 100) */
+  queue_size?: number;
+  /** `wait` queues requests over `max_concurrent` (default); `reject` answers 503 straight away */
+  overflow?: OverflowMode;
+  /** Requests per caller IP, e.g. `'60/min'`; more get a 429 with Retry-After */
+  rate_limit?: string;
+  /** Answer 504 when the local service has not started a response within this many ms (default: 25000) */
+  timeout?: number;
+  /** Retry GET, HEAD, PUT, DELETE and OPTIONS requests the local service refused, backing off in between (default: 0) */
+  retries?: number;
+  /** While the local service refuses connections, hold requests up to this many ms for it to come back (default: 0) */
+  hold?: number;
+  /** Check webhook signatures, e.g. `'stripe:whsec_…'` or `{ provider: 'hmac', header: 'x-signature', secret }` */
+  verify?: string | Array<string | VerifyRule>;
+  /** Answer requests with a missing or bad signature with 401 instead of forwarding them */
+  verify_reject?: boolean;
+  /** Fixture directory: record responses into it, or answer from it (see `mock_mode`) */
+  mock?: string;
+  /** `record` saves live responses as fixtures; `replay` (default) answers from them */
+  mock_mode?: MockMode;
+  /** When replaying, `'404'` (default) for requests no fixture matches, or `'live'` to forward them */
+  mock_fallback?: MockFallback;
+  /** Match fixtures on the request body too, not just method, path and query */
+  mock_match_body?: boolean;
+  /** Reconnect when the relay connection drops (default: true, with the defaults of ReconnectOptions) */
+  reconnect?: boolean | ReconnectOptions;
+  /** How often to ping the relay to measure latency and detect dead connections, in ms (default: 10000) */
+  ping_interval?: number;
+  /** Serve Prometheus metrics at `http://127.0.0.1:<metrics_port>/metrics`; 0 picks a free port */
+  metrics_port?: number;
+}
+
+type TunnelStatus = 'connecting' | 'connected' | 'reconnecting' | 'closing' | 'closed';
+
+interface CloseOptions {
+  /** Answer new requests with 503 and let those in flight finish first */
+  drain?: boolean;
+  /** Longest to wait for requests in flight with `drain`, in ms (default: 10000) */
+  timeout?: number;
+}
+
+/** Rejection from `tunnrl()`; `code` says why the relay refused the registration */
+interface TunnelError extends Error {
+  code?: RegisterErrorCode;
+}
+
+interface DisconnectInfo {
+  /** WebSocket close code */
+  code: number;
+  reason: string;
+}
+
+interface ReconnectingInfo {
+  /** 1 for the first retry after a drop */
+  attempt: number;
+  /** ms until this attempt */
+  delay: number;
+}
+
+interface ReconnectedInfo {
+  url: string;
+}
+
+/** The relay handed out a different URL on reconnect */
+interface UrlChange {
+  url: string;
+  previous: string;
 }
 
 interface RequestInfo {
@@ -17,213 +184,488 @@ interface RequestInfo {
   path: string;
   status: number;
   duration: number;
+  /** `host:port` of the local service that answered, or `in-process app` */
+  upstream?: string;
+  /** The route that matched, e.g. `/api/*`; `default` when `port` (or the app) took it */
+  route?: string;
+  bytesIn: number;
+  bytesOut: number;
+  /** ms spent waiting under `max_concurrent` */
+  queued?: number;
+  /** Connections tried, when the local service refused the first (see `retries` and `hold`) */
+  attempts?: number;
+  /** How the webhook signature checked out, when `verify` is set */
+  verification?: Verification;
+  /** The fixture file that answered (`replay`) or was written (`record`), when `mock` is set */
+  fixture?: string;
 }
 
-interface ForwardedRequest {
-  type: 'request';
-  requestId: string;
-  method: string;
-  path: string;
-  headers: Record<string, string | string[]>;
-  body: string;
-}
+// ─── Tunnel instance ──────────────────────────────────────────────────────────
 
-interface ForwardedResponse {
-  type: 'response';
-  requestId: string;
-  status: number;
-  headers: Record<string, string | string[]>;
-  body: string;
+/** Everything a Tunnel needs to (re)connect, resolved from TunnelOptions */
+interface TunnelSettings {
+  serverUrl: string;
+  authtoken?: string;
+  subdomain?: string;
+  dispatch: Omit<DispatcherOptions, 'streaming' | 'framing'>;
+  /** null when `reconnect: false` */
+  reconnect: Required<ReconnectOptions> | null;
+  pingInterval: number;
+  /** Labels this tunnel's metrics */
+  name: string;
+  metricsPort?: number;
 }
 
-type ServerMessage =
-  | { type: 'registered'; subdomain: string; url: string }
-  | { type: 'error'; message: string };
-
-const DEFAULT_HOST = 'wss://tunnrl.dev/register';
-
-// ─── Tunnel instance ──────────────────────────────────────────────────────────
+/** Relay refusals that another attempt cannot fix */
+const FATAL_CODES: RegisterErrorCode[] = ['unauthorized', 'subdomain-invalid', 'subdomain-reserved'];
 
+/**
+ * A registered tunnel. When the relay connection drops it reconnects with
+ * exponential backoff, asking for the same subdomain, and reports progress
+ * through `disconnected`, `reconnecting`, `reconnected` and `url-changed`.
+ * `close` fires once, when the tunnel is closed or gives up.
+ */
 class Tunnel extends EventEmitter {
   /** The public tunnel URL, e.g. https://abc123.tunnrl.dev */
   url: string = '';
 
+  private _status: TunnelStatus = 'connecting';
+  private _latency: number | null = null;
   private _ws: WebSocket | null = null;
+  private _dispatcher: StreamDispatcher | null = null;
   private _closed = false;
+  private _attempt = 0;
+  private _retryTimer: NodeJS.Timeout | null = null;
+  private _pingTimer: NodeJS.Timeout | null = null;
+  private _pingSentAt: number | null = null;
+  /** Subdomain from the last registration, asked for again on reconnect */
+  private _claimed: string | null = null;
+  private _session = uuidv4();
+  private _middleware: MiddlewareFn[] = [];
+  private _closing: Promise<void> | null = null;
+  private _stats = new TrafficStats();
+  private _metrics: MetricsServer | null = null;
 
   /** @internal */
-  _connect(ws: WebSocket): void {
-    this._ws = ws;
+  constructor(private _settings: TunnelSettings) {
+    super();
   }
 
-  /** Close the tunnel and release the connection */
-  close(): void {
-    if (this._closed) return;
-    this._closed = true;
-    this._ws?.close();
-    this.emit('close');
+  get status(): TunnelStatus {
+    return this._status;
   }
-}
 
-// ─── Local HTTP forwarder ─────────────────────────────────────────────────────
+  /** Round trip to the relay in ms, from the last ping; null until measured */
+  get latency(): number | null {
+    return this._latency;
+  }
 
-function makeErrorResponse(requestId: string, status: number, message: string): ForwardedResponse {
-  return {
-    type: 'response',
-    requestId,
-    status,
-    headers: { 'content-type': 'application/json' },
-    body: Buffer.from(JSON.stringify({ error: message })).toString('base64'),
-  };
-}
+  /** `http://127.0.0.1:<port>/metrics` with `metrics_port`, otherwise null */
+  get metricsUrl(): string | null {
+    return this._metrics?.url ?? null;
+  }
 
-function forwardToLocal(
-  localHost: string,
-  localPort: number,
-  request: ForwardedRequest
-): Promise<ForwardedResponse> {
-  return new Promise((resolve) => {
-    const bodyBuf = Buffer.from(request.body, 'base64');
-
-    const headers: Record<string, string | string[]> = {};
-    for (const [key, val] of Object.entries(request.headers)) {
-      const lower = key.toLowerCase();
-      if (['connection', 'keep-alive', 'transfer-encoding', 'upgrade',
-           'proxy-connection', 'te', 'trailers'].includes(lower)) continue;
-      headers[key] = val;
+  /** @internal Connect for the first time; rejects instead of retrying */
+  async _start(): Promise<void> {
+    const { metricsPort, name } = this._settings;
+    if (metricsPort !== undefined) {
+      const metrics = new MetricsServer(() => formatPrometheus([{ name, stats: this._stats.snapshot() }]));
+      await metrics.listen(metricsPort).catch((err: Error) => {
+        throw new Error(`tunnrl: ${err.message}`);
+      });
+      this._metrics = metrics;
     }
-    headers['host'] = `${localHost}:${localPort}`;
-
-    const options: http.RequestOptions = {
-      hostname: localHost,
-      port: localPort,
-      path: request.path,
-      method: request.method,
-      headers: { ...headers, 'content-length': bodyBuf.length },
+    try {
+      this.url = await this._dial();
+    } catch (err) {
+      this._metrics?.close();
+      throw err;
+    }
+    this._status = 'connected';
+  }
+
+  /**
+   * Traffic since the tunnel opened, overall and per route: request and
+   * status counts, bytes, upstream errors and timeouts, and p50/p95/p99
+   * latency over the last 1000 requests.
+   */
+  stats(): TunnelStats {
+    return this._stats.snapshot();
+  }
+
+  /**
+   * Add a middleware that sees every HTTP request, with its whole body,
+   * before your service does. Middleware run in the order they were added.
+   */
+  use(middleware: MiddlewareFn): this {
+    if (typeof middleware !== 'function') throw new TypeError('tunnel.use() expects a function');
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Close the tunnel and release the connection. With `drain: true`, new
+   * requests get a 503 while those in flight finish, for up to `timeout` ms;
+   * requests still running after that are dropped.
+   */
+  close(options: CloseOptions = {}): Promise<void> {
+    if (this._closing) return this._closing;
+    this._closed = true;
+    if (this._retryTimer) clearTimeout(this._retryTimer);
+
+    const dispatcher = this._dispatcher;
+    this._closing = (async () => {
+      if (options.drain && dispatcher) {
+        this._status = 'closing';
+        await dispatcher.drain(options.timeout ?? 10_000);
+      }
+      this._stopPing();
+      this._ws?.close();
+      this._metrics?.close();
+      this._status = 'closed';
+      this.emit('close');
+    })();
+    return this._closing;
+  }
+
+  /** Open a relay connection and resolve with the public URL once registered */
+  private _dial(): Promise<string> {
+    const { serverUrl, authtoken, subdomain, dispatch } = this._settings;
+    const headers: Record<string, string> = {
+      [FEATURES_HEADER]: CLIENT_FEATURES.join(','),
+      [SESSION_HEADER]: this._session,
     };
+    const wanted = subdomain ?? this._claimed;
+    if (wanted) headers[SUBDOMAIN_HEADER] = wanted;
+    if (authtoken) headers['authorization'] = `Bearer ${authtoken}`;
+
+    return new Promise<string>((resolve, reject) => {
+      const ws = new WebSocket(serverUrl, { headers });
+      this._ws = ws;
+      let registered = false;
+      let failure: TunnelError | null = null;
+
+      const connectTimeout = setTimeout(() => {
+        failure = new Error('tunnrl: connection timed out after 15s');
+        ws.terminate();
+      }, 15_000);
+
+      ws.on('message', (data: Buffer, isBinary: boolean) => {
+        let msg: ServerFrame;
+        try {
+          msg = decodeFrame<ServerFrame>(data, isBinary);
+        } catch {
+          return;
+        }
 
-    const transport = localHost.startsWith('https') ? https : http;
-
-    const localReq = transport.request(options, (localRes) => {
-      const chunks: Buffer[] = [];
-      localRes.on('data', (chunk: Buffer) => chunks.push(chunk));
-      localRes.on('end', () => {
-        resolve({
-          type: 'response',
-          requestId: request.requestId,
-          status: localRes.statusCode ?? 200,
-          headers: localRes.headers as Record<string, string | string[]>,
-          body: Buffer.concat(chunks).toString('base64'),
-        });
-      });
-      localRes.on('error', () =>
-        resolve(makeErrorResponse(request.requestId, 502, 'Local service error'))
-      );
-    });
+        if (this._dispatcher?.handle(msg)) return;
 
-    localReq.on('error', () =>
-      resolve(makeErrorResponse(
-        request.requestId, 502,
-        `Could not connect to ${localHost}:${localPort}. Is your service running?`
-      ))
-    );
+        if (msg.type === 'error') {
+          failure = new Error(`tunnrl: ${msg.message}`);
+          if (msg.code) failure.code = msg.code;
+          ws.close();
+          return;
+        }
 
-    localReq.setTimeout(25_000, () => {
-      localReq.destroy();
-      resolve(makeErrorResponse(request.requestId, 504, 'Local service timed out'));
-    });
+        if (msg.type === 'registered') {
+          clearTimeout(connectTimeout);
+          registered = true;
+          this._claimed = msg.subdomain;
+          const features = msg.features ?? [];
+          const dispatcher = new StreamDispatcher(ws, {
+            ...dispatch,
+            streaming: features.includes('stream'),
+            framing: negotiatedFraming(features),
+            middleware: this._middleware,
+          });
+          dispatcher.on('exchange', (exchange: Exchange) => {
+            this._stats.add(exchange);
+            this.emit('request', {
+              method: exchange.request.method,
+              path: exchange.request.path,
+              status: exchange.status,
+              duration: exchange.duration,
+              upstream: exchange.upstream,
+              route: exchange.route,
+              bytesIn: exchange.bytesIn,
+              bytesOut: exchange.bytesOut,
+              queued: exchange.queued,
+              attempts: exchange.attempts,
+              verification: exchange.verification,
+              fixture: exchange.fixture,
+            } as RequestInfo);
+          });
+          dispatcher.on('queued', (queued: QueuedRequest) => this.emit('queued', queued));
+          dispatcher.on('rejected', (rejection: Rejection) => {
+            this._stats.reject();
+            this.emit('rejected', rejection);
+          });
+          this._dispatcher = dispatcher;
+          this._startPing(ws);
+          resolve(msg.url);
+        }
+      });
 
-    if (bodyBuf.length > 0) localReq.write(bodyBuf);
-    localReq.end();
-  });
-}
+      ws.on('pong', () => {
+        if (this._pingSentAt === null) return;
+        this._latency = Date.now() - this._pingSentAt;
+        this._pingSentAt = null;
+      });
 
-// ─── Main API ─────────────────────────────────────────────────────────────────
+      ws.on('close', (code: number, reason: Buffer) => {
+        clearTimeout(connectTimeout);
+        if (this._ws === ws) {
+          this._dispatcher?.abortAll();
+          this._dispatcher = null;
+          this._stopPing();
+        }
+        if (!registered) {
+          reject(failure ?? new Error('tunnrl: connection closed before tunnel was established'));
+          return;
+        }
+        this._dropped(code, reason.toString());
+      });
 
-async function tunnrl(options: TunnelOptions): Promise<Tunnel> {
-  if (!options || !options.port) {
-    throw new Error('tunnrl: options.port is required');
+      ws.on('error', (err: Error) => {
+        if (!registered) failure ??= err;
+        else if (this.listenerCount('error') > 0) this.emit('error', err);
+      });
+    });
   }
 
-  const serverUrl = DEFAULT_HOST;
-  const localHost = options.local_host ?? 'localhost';
-  const localPort = options.port;
+  /** Ping the relay now and every `pingInterval`; a ping still unanswered by the next one means the link is dead */
+  private _startPing(ws: WebSocket): void {
+    this._stopPing();
+    const ping = () => {
+      if (this._pingSentAt !== null) {
+        ws.terminate();
+        return;
+      }
+      this._pingSentAt = Date.now();
+      ws.ping();
+    };
+    ping();
+    this._pingTimer = setInterval(ping, this._settings.pingInterval);
+  }
 
-  return new Promise<Tunnel>((resolve, reject) => {
-    const ws = new WebSocket(serverUrl);
-    const tunnel = new Tunnel();
-    tunnel._connect(ws);
-    let resolved = false;
+  private _stopPing(): void {
+    if (this._pingTimer) clearInterval(this._pingTimer);
+    this._pingTimer = null;
+    this._pingSentAt = null;
+  }
 
-    const connectTimeout = setTimeout(() => {
-      ws.terminate();
-      reject(new Error('tunnrl: connection timed out after 15s'));
-    }, 15_000);
+  private _dropped(code: number, reason: string): void {
+    if (this._closed) return;
+    this._status = this._settings.reconnect ? 'reconnecting' : 'closed';
+    this.emit('disconnected', { code, reason } as DisconnectInfo);
+    if (!this._settings.reconnect) {
+      void this.close();
+      return;
+    }
+    this._scheduleRetry();
+  }
 
-    ws.on('message', async (data: Buffer) => {
-      let msg: ServerMessage | ForwardedRequest;
+  private _scheduleRetry(): void {
+    const { retries, min_delay, max_delay, factor } = this._settings.reconnect!;
+    if (this._attempt >= retries) {
+      this._giveUp(new Error(`tunnrl: gave up reconnecting after ${this._attempt} attempts`));
+      return;
+    }
+    this._attempt++;
+    const delay = Math.min(min_delay * factor ** (this._attempt - 1), max_delay);
+    this._status = 'reconnecting';
+    this.emit('reconnecting', { attempt: this._attempt, delay } as ReconnectingInfo);
+
+    this._retryTimer = setTimeout(async () => {
+      this._retryTimer = null;
+      if (this._closed) return;
+      let url: string;
       try {
-        msg = JSON.parse(data.toString()) as ServerMessage | ForwardedRequest;
-      } catch {
+        url = await this._dial();
+      } catch (err) {
+        if (this._closed) return;
+        const code = (err as TunnelError).code;
+        if (code === 'subdomain-taken' && !this._settings.subdomain && this._claimed) {
+          // Our random name went to someone else while we were away; take a new one
+          this._claimed = null;
+        } else if (code === 'subdomain-taken' || (code && FATAL_CODES.includes(code))) {
+          this._giveUp(err as TunnelError);
+          return;
+        }
+        this._scheduleRetry();
         return;
       }
 
-      if (msg.type === 'error') {
-        clearTimeout(connectTimeout);
-        ws.close();
-        if (!resolved) reject(new Error(`tunnrl: ${(msg as { type: 'error'; message: string }).message}`));
+      if (this._closed) {
+        this._ws?.close();
         return;
       }
+      const previous = this.url;
+      this.url = url;
+      this._attempt = 0;
+      this._status = 'connected';
+      this.emit('reconnected', { url } as ReconnectedInfo);
+      if (url !== previous) this.emit('url-changed', { url, previous } as UrlChange);
+    }, delay);
+  }
 
-      if (msg.type === 'registered') {
-        clearTimeout(connectTimeout);
-        tunnel.url = (msg as { type: 'registered'; subdomain: string; url: string }).url;
-        resolved = true;
-        resolve(tunnel);
-        return;
-      }
+  private _giveUp(err: Error): void {
+    if (this.listenerCount('error') > 0) this.emit('error', err);
+    void this.close();
+  }
+}
 
-      if (msg.type === 'request') {
-        const request = msg as ForwardedRequest;
-        const startMs = Date.now();
-        const response = await forwardToLocal(localHost, localPort, request);
-        const duration = Date.now() - startMs;
-
-        tunnel.emit('request', {
-          method: request.method,
-          path: request.path,
-          status: response.status,
-          duration,
-        } as RequestInfo);
-
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(response));
-        }
-      }
-    });
+// ─── Main API ─────────────────────────────────────────────────────────────────
 
-    ws.on('close', () => {
-      if (resolved) {
-        tunnel.emit('close');
-      } else {
-        clearTimeout(connectTimeout);
-        reject(new Error('tunnrl: connection closed before tunnel was established'));
+/** Fallback upstream for `handler`, `app`, `fetch` or `dir`: an unlistened http.Server dialled in memory */
+function inProcessUpstream(options: TunnelOptions): Upstream | null {
+  if (options.dir) return staticUpstream({ dir: options.dir, spa: options.spa, listing: options.listing });
+  let server = options.app ?? null;
+  if (!server && options.handler) server = http.createServer(options.handler);
+  if (!server && options.fetch) server = http.createServer(fetchListener(options.fetch));
+  return server ? { host: 'localhost', port: 80, connect: inMemoryConnector(server) } : null;
+}
+
+async function tunnrl(options: TunnelOptions): Promise<Tunnel> {
+  const targets = options ? [options.port, options.handler, options.app, options.fetch, options.dir].filter(Boolean) : [];
+  if (targets.length === 0 && !options?.routes?.length) {
+    throw new Error('tunnrl: pass one of port, handler, app, fetch or dir');
+  }
+  if (targets.length > 1) {
+    throw new Error('tunnrl: port, handler, app, fetch and dir are alternatives; pass only one');
+  }
+
+  const serverUrl = resolveServerUrl(options.server);
+  const authtoken = resolveAuthtoken(options.authtoken);
+  if (options.subdomain !== undefined && !isValidSubdomain(options.subdomain.toLowerCase())) {
+    throw new Error(`tunnrl: Invalid subdomain "${options.subdomain}": use lowercase letters, digits and hyphens`);
+  }
+  const localHost = options.local_host ?? 'localhost';
+  const localPort = options.port;
+
+  const reconnect = options.reconnect === false ? null : {
+    retries: Infinity,
+    min_delay: 1000,
+    max_delay: 30_000,
+    factor: 2,
+    ...(typeof options.reconnect === 'object' ? options.reconnect : {}),
+  };
+  if (reconnect) {
+    for (const key of ['retries', 'min_delay', 'max_delay', 'factor'] as const) {
+      const value = reconnect[key];
+      if (typeof value !== 'number' || !(value >= 0)) {
+        throw new Error(`tunnrl: reconnect.${key} must be a non-negative number`);
       }
+    }
+  }
+  if (options.ping_interval !== undefined && !(options.ping_interval > 0)) {
+    throw new Error('tunnrl: ping_interval must be a positive number of ms');
+  }
+  const resilience: Resilience = { ...DEFAULT_RESILIENCE };
+  if (options.timeout !== undefined) {
+    if (!(options.timeout > 0)) throw new Error('tunnrl: timeout must be a positive number of ms');
+    resilience.timeout = options.timeout;
+  }
+  if (options.retries !== undefined) {
+    if (!(Number.isInteger(options.retries) && options.retries >= 0)) throw new Error('tunnrl: retries must be a whole number');
+    resilience.retries = options.retries;
+  }
+  if (options.hold !== undefined) {
+    if (!(options.hold >= 0)) throw new Error('tunnrl: hold must be a non-negative number of ms');
+    resilience.hold = options.hold;
+  }
+  const metricsPort = options.metrics_port;
+  if (metricsPort !== undefined && !(Number.isInteger(metricsPort) && metricsPort >= 0 && metricsPort <= 65535)) {
+    throw new Error('tunnrl: metrics_port must be a port number');
+  }
+
+  let access: AccessControl;
+  try {
+    access = new AccessControl({
+      auth: options.auth,
+      token: options.token,
+      allowIp: options.allow_ip === undefined ? undefined : ([] as string[]).concat(options.allow_ip),
     });
+  } catch (err) {
+    throw new Error(`tunnrl: ${(err as Error).message}`);
+  }
 
-    ws.on('error', (err: Error) => {
-      clearTimeout(connectTimeout);
-      if (!resolved) {
-        reject(err);
-      } else {
-        tunnel.emit('error', err);
-      }
+  let router: Router;
+  let rewriter: Rewriter;
+  let tls: UpstreamTls | null;
+  let limits: LimitOptions;
+  let verifier: SignatureVerifier | null;
+  let mock: FixtureStore | null;
+  try {
+    mock = options.mock
+      ? new FixtureStore(parseMockOptions({
+        dir: options.mock,
+        mode: options.mock_mode,
+        fallback: options.mock_fallback,
+        matchBody: options.mock_match_body,
+      }))
+      : null;
+    const verify = options.verify === undefined ? [] : ([] as Array<string | VerifyRule>).concat(options.verify);
+    verifier = verify.length
+      ? new SignatureVerifier(verify.map((rule) => (typeof rule === 'string' ? parseVerifyRule(rule) : checkVerifyRule(rule))), options.verify_reject)
+      : null;
+    limits = parseLimits({
+      maxConcurrent: options.max_concurrent,
+      queueSize: options.queue_size,
+      overflow: options.overflow,
+      rateLimit: options.rate_limit,
+    });
+    tls = loadUpstreamTls({
+      insecure: options.upstream_insecure,
+      ca: options.upstream_ca,
+      cert: options.upstream_cert,
+      key: options.upstream_key,
+      servername: options.upstream_sni,
     });
 
-    ws.on('ping', () => {
-      if (ws.readyState === WebSocket.OPEN) ws.pong();
+    const toRule = (rule: string | HeaderRule) => (typeof rule === 'string' ? parseHeaderRule(rule) : rule);
+    rewriter = new Rewriter({
+      requestHeaders: (options.request_headers ?? []).map(toRule),
+      responseHeaders: (options.response_headers ?? []).map(toRule),
+      preserveHost: options.preserve_host,
+      cors: options.cors,
     });
+
+    const rules = (options.routes ?? []).map((route): RouteRule => typeof route === 'string'
+      ? parseRoute(route, localHost)
+      : {
+        path: route.path,
+        host: route.host,
+        upstream: parseUpstream(route.upstream, localHost),
+        stripPrefix: route.strip_prefix,
+      });
+    router = new Router(rules, localPort ? localUpstream(localHost, localPort) : inProcessUpstream(options));
+  } catch (err) {
+    throw new Error(`tunnrl: ${(err as Error).message}`);
+  }
+
+  const tunnel = new Tunnel({
+    serverUrl,
+    authtoken,
+    subdomain: options.subdomain,
+    dispatch: {
+      router,
+      access,
+      rewriter,
+      tls,
+      resilience,
+      concurrency: limits.maxConcurrent ? new ConcurrencyLimiter(limits.maxConcurrent, limits.overflow, limits.queueSize) : null,
+      rateLimiter: limits.rateLimit ? new RateLimiter(limits.rateLimit) : null,
+      verifier,
+      mock,
+    },
+    reconnect,
+    pingInterval: options.ping_interval ?? 10_000,
+    name: String(localPort ?? options.dir ?? 'app'),
+    metricsPort,
   });
+  await tunnel._start();
+  return tunnel;
 }
 
 // ─── Attach Tunnel class as a property so CJS users can do: ──────────────────
@@ -234,6 +676,27 @@ async function tunnrl(options: TunnelOptions): Promise<Tunnel> {
 namespace tunnrl {
   export type Options = TunnelOptions;
   export type RequestEvent = RequestInfo;
+  export type RejectedEvent = Rejection;
+  export type Route = RouteOption;
+  export type HeaderChange = HeaderRule;
+  export type RegisterError = TunnelError;
+  export type Status = TunnelStatus;
+  export type Close = CloseOptions;
+  export type Reconnect = ReconnectOptions;
+  export type DisconnectedEvent = DisconnectInfo;
+  export type ReconnectingEvent = ReconnectingInfo;
+  export type ReconnectedEvent = ReconnectedInfo;
+  export type UrlChangedEvent = UrlChange;
+  export type Fetch = FetchHandler;
+  export type QueuedEvent = QueuedRequest;
+  export type Verify = VerifyRule;
+  export type RequestVerification = Verification;
+  export type Stats = TunnelStats;
+  export type RouteStats = TrafficCounts;
+  export type Middleware = MiddlewareFn;
+  export type MiddlewareRequest = BufferedRequest;
+  export type MiddlewareResponse = BufferedResponse;
+  export type MiddlewareResult = MiddlewareAnswer;
   // Tunnel type: use Awaited<ReturnType<typeof tunnrl>> or cast require('tunnrl').Tunnel
 }
 
@@ -0,0 +1,158 @@
+import { ChildProcess, spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as readline from 'readline';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type OutputStream = 'stdout' | 'stderr';
+
+/** How long a command gets to exit after SIGTERM before it is killed */
+const STOP_TIMEOUT = 5000;
+
+/** How often to try the local port while waiting for it */
+const PORT_POLL_INTERVAL = 250;
+
+/** Warn when the command's port has not opened after this long */
+export const PORT_SLOW_AFTER = 30_000;
+
+// ─── Wrapped command ─────────────────────────────────────────────────────────
+
+/**
+ * A command run alongside the tunnel, e.g. the dev server it exposes. Its
+ * output is read line by line so it can be interleaved with the request log.
+ *
+ * Runs in its own process group (except on Windows) so that stopping it also
+ * stops whatever it started, as `npm run dev` starts the actual server.
+ *
+ * Emits `line` (stream, text) for each line of output and `exit` (code,
+ * signal) once, when it has exited.
+ */
+export class WrappedCommand extends EventEmitter {
+  /** Short name for log prefixes: the program, without its directory */
+  readonly name: string;
+
+  private _process: ChildProcess | null = null;
+  private _exited: Promise<void> | null = null;
+
+  constructor(readonly argv: string[]) {
+    super();
+    this.name = path.basename(argv[0]);
+  }
+
+  get pid(): number | undefined {
+    return this._process?.pid;
+  }
+
+  get running(): boolean {
+    return this._process !== null && this._process.exitCode === null && this._process.signalCode === null;
+  }
+
+  /** Start the command with `env` added to tunnrl's own environment */
+  start(env: Record<string, string>): void {
+    const windows = process.platform === 'win32';
+    const child = spawn(this.argv[0], this.argv.slice(1), {
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: !windows,
+      // npm, npx and friends are .cmd scripts on Windows
+      shell: windows,
+    });
+    this._process = child;
+    this._exited = new Promise((resolve) => child.once('close', () => resolve()));
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const lines = readline.createInterface({ input: child[stream]!, crlfDelay: Infinity });
+      lines.on('line', (line) => this.emit('line', stream, line));
+    }
+    child.once('error', (err) => this.emit('error', err));
+    // 'close' rather than 'exit', so the last lines of output are emitted first
+    child.once('close', (code, signal) => this.emit('exit', code, signal));
+  }
+
+  /** Ask the command (and everything it started) to stop; kill it if it has not after a few seconds */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this._signal('SIGTERM');
+    const timer = setTimeout(() => this._signal('SIGKILL'), STOP_TIMEOUT);
+    await this._exited;
+    clearTimeout(timer);
+  }
+
+  private _signal(signal: NodeJS.Signals): void {
+    const child = this._process;
+    if (!child?.pid) return;
+    try {
+      if (process.platform === 'win32') child.kill(signal);
+      else process.kill(-child.pid, signal);
+    } catch { /* already gone */ }
+  }
+}
+
+// ─── Readiness ───────────────────────────────────────────────────────────────
+
+function accepts(host: string, port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ host, port });
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * Resolves once `host:port` accepts TCP connections, however long that takes.
+ * `onSlow` is called once if that has not happened after PORT_SLOW_AFTER.
+ */
+export async function waitForPort(host: string, port: number, onSlow?: () => void): Promise<void> {
+  const slow = onSlow ? setTimeout(onSlow, PORT_SLOW_AFTER) : null;
+  try {
+    while (!(await accepts(host, port))) {
+      await new Promise((resolve) => setTimeout(resolve, PORT_POLL_INTERVAL));
+    }
+  } finally {
+    if (slow) clearTimeout(slow);
+  }
+}
+
+// ─── Environment ─────────────────────────────────────────────────────────────
+
+/** `TUNNRL_URL_WEB` for a tunnel named `web` in a config file */
+export function urlVariable(tunnel: string): string {
+  return `TUNNRL_URL_${tunnel.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+/**
+ * Set `vars` in a dotenv file: existing lines for them are replaced in
+ * place, others are appended, and everything else in the file is kept.
+ */
+export function updateEnvFile(file: string, vars: Record<string, string>): void {
+  let lines: string[] = [];
+  try {
+    lines = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  const written = new Set<string>();
+  const updated: string[] = [];
+  for (const line of lines) {
+    const name = /^\s*(?:export\s+)?([\w.-]+)\s*=/.exec(line)?.[1];
+    if (!name || !(name in vars)) {
+      updated.push(line);
+    } else if (!written.has(name)) {
+      updated.push(`${name}=${vars[name]}`);
+      written.add(name);
+    }
+  }
+  for (const [name, value] of Object.entries(vars)) {
+    if (!written.has(name)) updated.push(`${name}=${value}`);
+  }
+
+  fs.writeFileSync(file, `${updated.join('\n')}\n`);
+}
@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One entry under `tunnels:` */
+export interface TunnelConfig {
+  /** Optional when `routes` covers every request */
+  port?: number;
+  host?: string;
+  /** Route rules in the `--route` form, e.g. `/api/* -> 4000 strip` */
+  routes?: string[];
+  /** Serve this directory (relative to the config file) instead of `port` */
+  dir?: string;
+  spa?: boolean;
+  listing?: boolean;
+  /** Header rules in the `--request-header` form, e.g. `set X-Env: dev` */
+  request_headers?: string[];
+  response_headers?: string[];
+  preserve_host?: boolean;
+  cors?: boolean;
+  /** TLS for `https://` hosts; certificate paths are relative to the config file */
+  upstream_insecure?: boolean;
+  upstream_ca?: string;
+  upstream_cert?: string;
+  upstream_key?: string;
+  upstream_sni?: string;
+  /** Forward at most this many requests at once */
+  max_concurrent?: number;
+  /** Requests that may wait for a slot (default: 100) */
+  queue_size?: number;
+  /** `wait` (default) or `reject` with a 503 when every slot is busy */
+  overflow?: 'wait' | 'reject';
+  /** Requests per caller IP, e.g. `60/min` */
+  rate_limit?: string;
+  /** Seconds to wait for the local service to start a response (default: 25) */
+  timeout?: number;
+  /** Times to retry idempotent requests the local service refused */
+  retries?: number;
+  /** Seconds to hold requests while the local service is down */
+  hold?: number;
+  /** Webhook signing secrets, e.g. `stripe:whsec_…` */
+  verify?: string | string[];
+  /** Answer requests with a missing or bad signature with 401 */
+  verify_reject?: boolean;
+  /** Fixture directory, relative to the config file */
+  mock?: string;
+  /** `record` or `replay` (default) */
+  mock_mode?: 'record' | 'replay';
+  /** `404` (default) or `live` for requests no fixture matches */
+  mock_fallback?: '404' | 404 | 'live';
+  /** Match fixtures on the request body too */
+  mock_match_body?: boolean;
+  /** Raw TCP tunnel instead of HTTP */
+  tcp?: boolean;
+  /** Subdomain to ask the relay for */
+  subdomain?: string;
+  auth?: string;
+  token?: string;
+  allow_ip?: string | string[];
+}
+
+/** Contents of tunnrl.yml / tunnrl.json */
+export interface TunnrlConfig {
+  server?: string;
+  inspect?: boolean;
+  inspect_port?: number;
+  /** Serve Prometheus metrics on this local port */
+  metrics_port?: number;
+  record?: string;
+  tunnels: Record<string, TunnelConfig>;
+}
+
+/** Looked up, in order, in the working directory by `tunnrl start` */
+export const CONFIG_FILES = ['tunnrl.yml', 'tunnrl.yaml', 'tunnrl.json'];
+
+const TOP_LEVEL_KEYS = ['server', 'inspect', 'inspect_port', 'metrics_port', 'record', 'tunnels'];
+const TUNNEL_KEYS = [
+  'port', 'host', 'routes', 'dir', 'spa', 'listing', 'tcp', 'subdomain', 'auth', 'token', 'allow_ip',
+  'request_headers', 'response_headers', 'preserve_host', 'cors',
+  'upstream_insecure', 'upstream_ca', 'upstream_cert', 'upstream_key', 'upstream_sni',
+  'max_concurrent', 'queue_size', 'overflow', 'rate_limit', 'timeout', 'retries', 'hold', 'verify', 'verify_reject',
+  'mock', 'mock_mode', 'mock_fallback', 'mock_match_body',
+];
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(obj: Record<string, unknown>, allowed: string[], where: string): void {
+  for (const key of Object.keys(obj)) {
+    if (!allowed.includes(key)) throw new Error(`${where}: unknown option "${key}"`);
+  }
+}
+
+function checkType(value: unknown, type: 'string' | 'boolean' | 'number', where: string): void {
+  if (value !== undefined && typeof value !== type) throw new Error(`${where} must be a ${type}`);
+}
+
+function checkPort(value: unknown, where: string): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+    throw new Error(`${where} must be a number between 1 and 65535`);
+  }
+}
+
+function validateTunnel(name: string, raw: unknown): TunnelConfig {
+  const where = `tunnels.${name}`;
+  if (!/^[\w-]+$/.test(name)) throw new Error(`${where}: names may only use letters, digits, _ and -`);
+  // `web: 3000` is shorthand for `web: { port: 3000 }`
+  const tunnel = typeof raw === 'number' ? { port: raw } : raw;
+  if (!isObject(tunnel)) throw new Error(`${where} must be a port number or a map of options`);
+
+  checkKeys(tunnel, TUNNEL_KEYS, where);
+  const routes = tunnel.routes;
+  if (routes !== undefined && !(Array.isArray(routes) && routes.every((r) => typeof r === 'string'))) {
+    throw new Error(`${where}.routes must be a list of rules like "/api/* -> 4000"`);
+  }
+  if (tunnel.dir !== undefined && (tunnel.port !== undefined || tunnel.tcp)) {
+    throw new Error(`${where}: dir serves files itself; drop port${tunnel.tcp ? ' and tcp' : ''}`);
+  }
+  if (tunnel.port !== undefined || !(routes?.length || tunnel.dir !== undefined) || tunnel.tcp) {
+    checkPort(tunnel.port, `${where}.port`);
+  }
+  for (const key of [
+    'host', 'subdomain', 'auth', 'token', 'upstream_ca', 'upstream_cert', 'upstream_key', 'upstream_sni', 'overflow', 'rate_limit', 'dir',
+    'mock', 'mock_mode',
+  ]) {
+    checkType(tunnel[key], 'string', `${where}.${key}`);
+  }
+  for (const key of ['tcp', 'preserve_host', 'cors', 'upstream_insecure', 'spa', 'listing', 'verify_reject', 'mock_match_body']) {
+    checkType(tunnel[key], 'boolean', `${where}.${key}`);
+  }
+  for (const key of ['max_concurrent', 'queue_size', 'timeout', 'retries', 'hold']) {
+    checkType(tunnel[key], 'number', `${where}.${key}`);
+  }
+  // YAML reads a bare 404 as a number
+  if (tunnel.mock_fallback !== undefined && typeof tunnel.mock_fallback !== 'string' && tunnel.mock_fallback !== 404) {
+    throw new Error(`${where}.mock_fallback must be 404 or "live"`);
+  }
+  for (const key of ['request_headers', 'response_headers']) {
+    const rules = tunnel[key];
+    if (rules !== undefined && !(Array.isArray(rules) && rules.every((r) => typeof r === 'string'))) {
+      throw new Error(`${where}.${key} must be a list of rules like "set X-Env: dev"`);
+    }
+  }
+
+  for (const key of ['allow_ip', 'verify']) {
+    const value = tunnel[key];
+    if (value !== undefined && typeof value !== 'string'
+      && !(Array.isArray(value) && value.every((v) => typeof v === 'string'))) {
+      throw new Error(`${where}.${key} must be a string or a list of strings`);
+    }
+  }
+  return tunnel as unknown as TunnelConfig;
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+/** The first config file present in `dir`, or null */
+export function findConfig(dir = process.cwd()): string | null {
+  for (const name of CONFIG_FILES) {
+    const file = path.join(dir, name);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+/** Read and validate a config file. Errors name the file and the offending key. */
+export function loadConfig(file: string): TunnrlConfig {
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    raw = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+
+  try {
+    if (!isObject(raw)) throw new Error('expected a map with a `tunnels` section');
+    checkKeys(raw, TOP_LEVEL_KEYS, 'config');
+    checkType(raw.server, 'string', 'server');
+    checkType(raw.record, 'string', 'record');
+    checkType(raw.inspect, 'boolean', 'inspect');
+    if (raw.inspect_port !== undefined) checkPort(raw.inspect_port, 'inspect_port');
+    if (raw.metrics_port !== undefined) checkPort(raw.metrics_port, 'metrics_port');
+
+    if (!isObject(raw.tunnels) || Object.keys(raw.tunnels).length === 0) {
+      throw new Error('`tunnels` must list at least one tunnel');
+    }
+    const tunnels: Record<string, TunnelConfig> = {};
+    for (const [name, tunnel] of Object.entries(raw.tunnels)) {
+      tunnels[name] = validateTunnel(name, tunnel);
+    }
+    return { ...(raw as Omit<TunnrlConfig, 'tunnels'>), tunnels };
+  } catch (err) {
+    throw new Error(`${file}: ${(err as Error).message}`);
+  }
+}
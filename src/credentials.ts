@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Contents of the settings file written by `tunnrl login` */
+interface StoredSettings {
+  authtoken?: string;
+}
+
+// ─── Config dir ──────────────────────────────────────────────────────────────
+
+/**
+ * Where tunnrl keeps per-user settings: `$TUNNRL_CONFIG_DIR` when set,
+ * otherwise `%APPDATA%\tunnrl` on Windows and `$XDG_CONFIG_HOME/tunnrl`
+ * (default `~/.config/tunnrl`) everywhere else.
+ */
+export function configDir(): string {
+  if (process.env.TUNNRL_CONFIG_DIR) return process.env.TUNNRL_CONFIG_DIR;
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'tunnrl');
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'tunnrl');
+}
+
+export function settingsFile(): string {
+  return path.join(configDir(), 'config.json');
+}
+
+function readSettings(): StoredSettings {
+  try {
+    return JSON.parse(fs.readFileSync(settingsFile(), 'utf8')) as StoredSettings;
+  } catch {
+    return {};
+  }
+}
+
+// ─── Auth token ──────────────────────────────────────────────────────────────
+
+/** Store `token` for later runs. The file is only readable by the current user. Returns its path. */
+export function saveAuthtoken(token: string): string {
+  const file = settingsFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const settings = { ...readSettings(), authtoken: token };
+  fs.writeFileSync(file, `${JSON.stringify(settings, null, 2)}\n`, { mode: 0o600 });
+  fs.chmodSync(file, 0o600);
+  return file;
+}
+
+/** The token to register with: `explicit`, then `$TUNNRL_AUTHTOKEN`, then the one saved by `tunnrl login` */
+export function resolveAuthtoken(explicit?: string): string | undefined {
+  return explicit || process.env.TUNNRL_AUTHTOKEN || readSettings().authtoken || undefined;
+}
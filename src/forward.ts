@@ -0,0 +1,1316 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import * as http from 'http';
+import * as https from 'https';
+import {
+  ClientMessage,
+  ForwardedRequest,
+  ForwardedResponse,
+  Headers,
+  RequestAbort,
+  RequestData,
+  RequestEnd,
+  STREAM_WINDOW,
+  ServerFrame,
+  SocketOpen,
+  isSendableCloseCode,
+} from './protocol';
+import { AccessControl, AccessDenial, Rejection, callerAddress } from './access';
+import { Router, Upstream, connectHost, formatRule, formatUpstream, hostPort } from './routes';
+import type { Rewriter } from './rewrite';
+import { UpstreamTls, tlsErrorHint, tlsErrorReason, tlsRequestOptions } from './tls';
+import { ConcurrencyLimiter, RateLimiter, formatRateLimit } from './limits';
+import { FrameEncoder, FramingOptions } from './framing';
+import { SignatureCheck, SignatureVerifier, Verification, providerName } from './verify';
+import type { FixtureStore } from './mock';
+import { DEFAULT_RESILIENCE, Resilience, UpstreamState, errorResponse, retryDelay } from './resilience';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface RequestHead {
+  requestId: string;
+  method: string;
+  path: string;
+  headers: Headers;
+}
+
+/** How the local service failed when tunnrl had to answer for it */
+export type UpstreamFailure = 'error' | 'timeout';
+
+/** Receives the local service's response as it arrives */
+export interface ResponseSink {
+  head(status: number, headers: Headers): void;
+  data(chunk: Buffer): void;
+  /** `error` is set when the response failed after the head was sent */
+  end(error?: string): void;
+  /** Called first when the service could not be reached, broke off or timed out */
+  failed?(failure: UpstreamFailure): void;
+  /** Called before trying again after the service refused the connection; `attempt` counts from 2 */
+  retrying?(attempt: number): void;
+}
+
+/** Handle on an in-flight request to the local service */
+export interface LocalStream {
+  /** Write request body bytes; `cb` fires once they are flushed to the local socket */
+  write(chunk: Buffer, cb?: () => void): void;
+  end(): void;
+  abort(): void;
+  pause(): void;
+  resume(): void;
+}
+
+/** How requests to the local service are made */
+export interface LocalOptions {
+  /** Header rules, host preservation and CORS */
+  rewriter?: Rewriter | null;
+  /** Certificates and verification for `https://` upstreams */
+  tls?: UpstreamTls | null;
+  /** Timeout, retries and hold (default: 25s timeout, no retries) */
+  resilience?: Resilience;
+}
+
+/** A whole request, body included, as seen by middleware */
+export interface BufferedRequest {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: Buffer;
+}
+
+export interface BufferedResponse {
+  status: number;
+  headers: Headers;
+  body: Buffer;
+}
+
+/** What middleware answers with; headers and body may be left out, and the body may be text */
+export interface MiddlewareResult {
+  status: number;
+  headers?: Headers;
+  body?: Buffer | string;
+}
+
+/**
+ * Sees each HTTP request before the local service does. Call `next` to pass
+ * the request on (changed or not) and get the response back, or return a
+ * response without calling it.
+ */
+export type Middleware = (
+  request: BufferedRequest,
+  next: (request?: BufferedRequest) => Promise<BufferedResponse>
+) => MiddlewareResult | Promise<MiddlewareResult>;
+
+/** A completed request/response pair, as seen by the client */
+export interface Exchange {
+  /** The request as received, with `body` holding the first CAPTURE_LIMIT bytes */
+  request: ForwardedRequest;
+  status: number;
+  headers: Headers;
+  /** First CAPTURE_LIMIT bytes of the response body */
+  responseBody: Buffer;
+  bytesIn: number;
+  bytesOut: number;
+  duration: number;
+  error?: string;
+  /** `host:port` of the local service that answered */
+  upstream?: string;
+  /** The route rule that matched, e.g. `/api/*`; `default` for the fallback upstream */
+  route?: string;
+  /** Set when tunnrl answered because the local service failed */
+  failure?: UpstreamFailure;
+  /** ms spent waiting for a free slot under the concurrency limit */
+  queued?: number;
+  /** Connections tried, when the service refused the first */
+  attempts?: number;
+  /** Set when the tunnel checks webhook signatures */
+  verification?: Verification;
+  /** In mock mode, the fixture file that answered (replay) or was written (record) */
+  fixture?: string;
+}
+
+/** A request held back because the concurrency limit is reached */
+export interface QueuedRequest {
+  requestId: string;
+  method: string;
+  path: string;
+  remoteAddress: string;
+  /** 1 for the next request to start */
+  position: number;
+}
+
+/** A proxied WebSocket connection, reported when it opens and again when it closes */
+export interface SocketInfo {
+  requestId: string;
+  path: string;
+  headers: Headers;
+  /** 101 once upgraded, or the status the local service rejected the upgrade with */
+  status: number;
+  /** Close code, set on close */
+  code?: number;
+  reason?: string;
+  messagesIn: number;
+  messagesOut: number;
+  bytesIn: number;
+  bytesOut: number;
+  duration: number;
+  /** `host:port` of the local service the socket was dialled to */
+  upstream?: string;
+}
+
+/** Bodies are captured for logging and replay up to this many bytes */
+export const CAPTURE_LIMIT = 1024 * 1024;
+
+/** Largest request body held whole for middleware, signature checks or mock replay; larger ones get a 413 */
+export const BUFFER_LIMIT = 10 * 1024 * 1024;
+
+/** Pause the local response while the WebSocket has this much queued */
+const WS_HIGH_WATER = 4 * 1024 * 1024;
+
+const HOP_BY_HOP = [
+  'connection', 'keep-alive', 'transfer-encoding', 'upgrade',
+  'proxy-connection', 'te', 'trailers',
+];
+
+/** Socket errors meaning nothing answered at all, as opposed to a failed TLS handshake */
+const UNREACHABLE = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+/** Handshake headers the local `ws` client generates itself */
+const WS_HANDSHAKE = [
+  'sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions',
+  'sec-websocket-protocol', 'sec-websocket-accept',
+];
+
+/** Why requests arriving during drain() get a 503 */
+const SHUTTING_DOWN = { status: 503, reason: 'Tunnel is shutting down' };
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function stripHopByHop(headers: Headers): Headers {
+  const out: Headers = {};
+  for (const [key, val] of Object.entries(headers)) {
+    if (HOP_BY_HOP.includes(key.toLowerCase())) continue;
+    out[key] = val;
+  }
+  return out;
+}
+
+function jsonBody(body: unknown): Buffer {
+  return Buffer.from(JSON.stringify(body));
+}
+
+export function makeErrorResponse(requestId: string, status: number, body: unknown): ForwardedResponse {
+  return {
+    type: 'response',
+    requestId,
+    status,
+    headers: { 'content-type': 'application/json' },
+    body: jsonBody(body).toString('base64'),
+  };
+}
+
+/** Appends to `chunks` until `limit` bytes are held; returns the new total */
+function capture(chunks: Buffer[], held: number, chunk: Buffer, limit = CAPTURE_LIMIT): number {
+  if (held >= limit) return held;
+  const slice = chunk.length > limit - held ? chunk.subarray(0, limit - held) : chunk;
+  chunks.push(slice);
+  return held + slice.length;
+}
+
+// ─── Local HTTP forwarder ─────────────────────────────────────────────────────
+
+/**
+ * Open a request to the local service and pipe its response into `sink` as it
+ * arrives. The request body is written through the returned handle. Failures
+ * before the response head are answered with an error page (HTML or JSON,
+ * see errorResponse). A refused connection is tried again as `resilience`
+ * allows; until one connects, body writes are held here so they can be resent.
+ */
+export function streamToLocal(
+  upstream: Upstream,
+  head: RequestHead,
+  sink: ResponseSink,
+  { rewriter = null, tls = null, resilience = DEFAULT_RESILIENCE }: LocalOptions = {}
+): LocalStream {
+  let headers = stripHopByHop(head.headers);
+  headers['host'] = hostPort(upstream);
+  if (rewriter) headers = rewriter.request(head.headers, headers);
+
+  const options: https.RequestOptions = {
+    hostname: connectHost(upstream),
+    port: upstream.port,
+    path: head.path,
+    method: head.method,
+    headers,
+    ...(upstream.secure ? tlsRequestOptions(tls) : {}),
+    ...(upstream.connect ? { createConnection: upstream.connect } : {}),
+  };
+
+  const transport = upstream.secure && !upstream.connect ? https : http;
+  const target = formatUpstream(upstream);
+  // In-process upstreams cannot refuse a connection, so there is nothing to retry
+  const retrying = !upstream.connect && (resilience.retries > 0 || resilience.hold > 0);
+  const startMs = Date.now();
+
+  let localReq: http.ClientRequest;
+  let localRes: http.IncomingMessage | null = null;
+  let finished = false;
+  let paused = false;
+  let attempts = 0;
+  // Tries after the hold ran out; only these use up `resilience.retries`
+  let retried = 0;
+  let retryTimer: NodeJS.Timeout | null = null;
+  // Body writes wait here until a connection is up
+  let holding = retrying;
+  let ended = false;
+  const held: Array<{ chunk: Buffer; cb?: () => void }> = [];
+
+  const fail = (state: UpstreamState, message: string) => {
+    if (finished) return;
+    finished = true;
+    sink.failed?.(state === 'timeout' ? 'timeout' : 'error');
+    for (const { cb } of held.splice(0)) cb?.();
+    if (localRes) {
+      sink.end('Local service error');
+      return;
+    }
+    const page = errorResponse(
+      { state, message, upstream: target, attempts, waited: Date.now() - startMs },
+      head.headers
+    );
+    sink.head(page.status, page.headers);
+    sink.data(page.body);
+    sink.end();
+  };
+
+  const release = () => {
+    holding = false;
+    for (const { chunk, cb } of held.splice(0)) localReq.write(chunk, () => cb?.());
+    if (ended) localReq.end();
+  };
+
+  const attempt = () => {
+    retryTimer = null;
+    attempts++;
+    let connected = false;
+    const req = transport.request(options, (res) => {
+      localRes = res;
+      // The timeout covers time-to-first-byte only, so SSE and slow downloads can run
+      req.setTimeout(0);
+      if (paused) res.pause();
+
+      const resHeaders = res.headers as Headers;
+      sink.head(
+        res.statusCode ?? 200,
+        rewriter ? rewriter.response(resHeaders, head.headers, upstream.host, upstream.port) : resHeaders
+      );
+      res.on('data', (chunk: Buffer) => sink.data(chunk));
+      res.on('end', () => {
+        if (finished) return;
+        finished = true;
+        sink.end();
+      });
+      res.on('error', () => fail('broken', 'Local service error'));
+      res.on('aborted', () => fail('broken', 'Local service error'));
+    });
+    localReq = req;
+
+    if (holding) {
+      req.once('socket', (socket) => {
+        const onConnect = () => {
+          connected = true;
+          release();
+        };
+        if (socket.connecting) socket.once('connect', onConnect);
+        else onConnect();
+      });
+    }
+
+    req.on('error', (err: NodeJS.ErrnoException) => {
+      if (finished) return;
+      if (retrying && !connected && err.code === 'ECONNREFUSED') {
+        const waited = Date.now() - startMs;
+        const delay = retryDelay(resilience, head.method, retried, waited);
+        if (delay !== null) {
+          if (waited >= resilience.hold) retried++;
+          sink.retrying?.(attempts + 1);
+          retryTimer = setTimeout(attempt, delay);
+          return;
+        }
+      }
+      const hint = upstream.secure ? tlsErrorHint(err) : null;
+      if (hint) {
+        fail('tls', `Untrusted certificate from ${target} (${err.message}): ${hint}`);
+        return;
+      }
+      if (UNREACHABLE.includes(err.code ?? '')) {
+        // Local service is not running or refused connection
+        fail('down', `Could not connect to ${target}. Is your local service running?`);
+        return;
+      }
+      if (upstream.secure) {
+        // Reached the service but the handshake failed: wrong protocol, client cert refused…
+        fail('tls', `TLS connection to ${target} failed (${tlsErrorReason(err)})`);
+        return;
+      }
+      fail('broken', `Connection to ${target} closed before a response (${err.code ?? err.message})`);
+    });
+
+    req.setTimeout(resilience.timeout, () => {
+      fail('timeout', `${target} sent no response within ${resilience.timeout / 1000}s`);
+      req.destroy();
+    });
+  };
+
+  attempt();
+
+  return {
+    write: (chunk, cb) => {
+      if (finished) {
+        cb?.();
+        return;
+      }
+      if (holding) {
+        held.push({ chunk, cb });
+        return;
+      }
+      if (localReq.destroyed) {
+        cb?.();
+        return;
+      }
+      localReq.write(chunk, () => cb?.());
+    },
+    end: () => {
+      if (holding) {
+        ended = true;
+        return;
+      }
+      if (!localReq.destroyed) localReq.end();
+    },
+    abort: () => {
+      finished = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      localReq.destroy();
+    },
+    pause: () => {
+      paused = true;
+      localRes?.pause();
+    },
+    resume: () => {
+      paused = false;
+      localRes?.resume();
+    },
+  };
+}
+
+/**
+ * Forward a complete request and buffer the whole response (replay, legacy
+ * relays). `onFailure` hears when the response is tunnrl's own 502 or 504.
+ */
+export function forwardToLocal(
+  upstream: Upstream,
+  request: ForwardedRequest,
+  options: LocalOptions = {},
+  onFailure?: (failure: UpstreamFailure) => void
+): Promise<ForwardedResponse> {
+  return new Promise((resolve) => {
+    const bodyBuf = Buffer.from(request.body, 'base64');
+    const chunks: Buffer[] = [];
+    let status = 502;
+    let headers: Headers = {};
+
+    const local = streamToLocal(
+      upstream,
+      { ...request, headers: { ...request.headers, 'content-length': String(bodyBuf.length) } },
+      {
+        head: (s, h) => { status = s; headers = h; },
+        data: (chunk) => chunks.push(chunk),
+        failed: onFailure,
+        end: (error) => {
+          if (error) {
+            resolve(makeErrorResponse(request.requestId, 502, { error }));
+            return;
+          }
+          resolve({
+            type: 'response',
+            requestId: request.requestId,
+            status,
+            headers,
+            body: Buffer.concat(chunks).toString('base64'),
+          });
+        },
+      },
+      options
+    );
+
+    if (bodyBuf.length > 0) local.write(bodyBuf);
+    local.end();
+  });
+}
+
+/** Re-send a captured request through the router and report it as an Exchange */
+export async function replayToLocal(
+  router: Router,
+  request: ForwardedRequest,
+  options: LocalOptions = {}
+): Promise<Exchange> {
+  const bytesIn = Buffer.from(request.body, 'base64').length;
+  const route = router.resolve(request.path, request.headers);
+  if (!route) {
+    const error = `No route for ${request.path.split('?')[0]}`;
+    return { request, status: 502, headers: {}, responseBody: Buffer.alloc(0), bytesIn, bytesOut: 0, duration: 0, error };
+  }
+
+  const startMs = Date.now();
+  const response = await forwardToLocal(route.upstream, { ...request, path: route.path }, options);
+  const body = Buffer.from(response.body, 'base64');
+  return {
+    request,
+    status: response.status,
+    headers: response.headers,
+    responseBody: body.subarray(0, CAPTURE_LIMIT),
+    bytesIn,
+    bytesOut: body.length,
+    duration: Date.now() - startMs,
+    upstream: formatUpstream(route.upstream),
+  };
+}
+
+// ─── Tunnel stream dispatcher ─────────────────────────────────────────────────
+
+interface SocketState {
+  info: SocketInfo;
+  local: WebSocket;
+  startMs: number;
+  opened: boolean;
+}
+
+export interface DispatcherOptions {
+  /** Picks the local service for each request */
+  router: Router;
+  /** The relay negotiated the `stream` feature */
+  streaming: boolean;
+  /** How to encode frames to the relay, as negotiated (default: JSON) */
+  framing?: FramingOptions;
+  access?: AccessControl | null;
+  /** Header rules, host preservation and CORS */
+  rewriter?: Rewriter | null;
+  /** Certificates and verification for `https://` upstreams */
+  tls?: UpstreamTls | null;
+  /** Timeout, retries and hold for requests to the local service */
+  resilience?: Resilience;
+  /** Run in order on every HTTP request; while any are set, requests and responses are buffered */
+  middleware?: Middleware[];
+  /** Caps requests in flight to the local service; shared across reconnects */
+  concurrency?: ConcurrencyLimiter | null;
+  /** Per-caller request rate limit */
+  rateLimiter?: RateLimiter | null;
+  /** Checks webhook signatures; when it rejects bad ones, requests are buffered until checked */
+  verifier?: SignatureVerifier | null;
+  /** Records responses as fixtures, or answers from them; replaying buffers requests */
+  mock?: FixtureStore | null;
+}
+
+interface StreamState {
+  request: ForwardedRequest;
+  upstream: string;
+  local: LocalStream;
+  startMs: number;
+  requestChunks: Buffer[];
+  requestHeld: number;
+  bytesIn: number;
+  responseChunks: Buffer[];
+  responseHeld: number;
+  bytesOut: number;
+  status: number;
+  headers: Headers;
+  unacked: number;
+  paused: boolean;
+  /** ms spent in the queue before starting */
+  queued: number;
+  signature: SignatureCheck | null;
+  /** The fixture that answered, when replaying */
+  fixture?: string;
+  /** The route rule that matched, for metrics */
+  route?: string;
+  failure?: UpstreamFailure;
+  attempts?: number;
+}
+
+/** A request waiting for a slot, with the body frames that arrived meanwhile */
+interface WaitingRequest {
+  request: ForwardedRequest;
+  frames: Array<RequestData | RequestEnd>;
+  since: number;
+}
+
+/**
+ * Runs the client side of every request on one relay connection: opens the
+ * local request for each `request` frame, feeds it body frames, and sends the
+ * response back either streamed (when the relay negotiated `stream`) or as a
+ * single buffered ForwardedResponse. Proxied WebSockets are dialled and relayed
+ * the same way.
+ *
+ * Emits `exchange` (Exchange) when each request completes, `socket-open` /
+ * `socket-close` (SocketInfo) for upgraded connections, `queued`
+ * (QueuedRequest) for requests waiting on the concurrency limit, and
+ * `rejected` (Rejection) for requests turned away by the access rules, the
+ * limits, a bad webhook signature, or because the dispatcher is draining.
+ */
+export class StreamDispatcher extends EventEmitter {
+  private _streams = new Map<string, StreamState>();
+  private _sockets = new Map<string, SocketState>();
+  private _waiting = new Map<string, WaitingRequest>();
+  private _draining = false;
+  private _onDrained: Array<() => void> = [];
+  private _encoder: FrameEncoder;
+
+  constructor(
+    private _ws: WebSocket,
+    private _options: DispatcherOptions
+  ) {
+    super();
+    this._encoder = new FrameEncoder(_options.framing);
+  }
+
+  private get _streaming(): boolean {
+    return this._options.streaming;
+  }
+
+  /** Requests currently being forwarded */
+  get inFlight(): number {
+    return this._streams.size;
+  }
+
+  /** Requests being forwarded or waiting for a slot */
+  get pending(): number {
+    return this._streams.size + this._waiting.size;
+  }
+
+  /**
+   * Stop taking requests, answering new ones with 503, and wait for those
+   * already pending. Resolves true once they have all finished, or false if
+   * `timeout` ms pass first. Proxied WebSockets are left to abortAll().
+   */
+  drain(timeout: number): Promise<boolean> {
+    this._draining = true;
+    return new Promise((resolve) => {
+      if (this.pending === 0) {
+        resolve(true);
+        return;
+      }
+      const timer = setTimeout(() => resolve(false), timeout);
+      this._onDrained.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  /** Handle a frame from the relay. Returns false if it is not a request frame. */
+  handle(msg: ServerFrame): boolean {
+    switch (msg.type) {
+      case 'request':
+        this._open(msg);
+        return true;
+      case 'request-data': {
+        if (this._hold(msg)) return true;
+        const state = this._streams.get(msg.requestId);
+        if (!state) return true;
+        const chunk = Buffer.from(msg.data, 'base64');
+        state.bytesIn += chunk.length;
+        state.requestHeld = capture(state.requestChunks, state.requestHeld, chunk);
+        state.signature?.update(chunk);
+        state.local.write(chunk, () => {
+          this._send({ type: 'ack', requestId: msg.requestId, bytes: chunk.length });
+        });
+        return true;
+      }
+      case 'request-end':
+        if (this._hold(msg)) return true;
+        this._streams.get(msg.requestId)?.local.end();
+        return true;
+      case 'request-abort': {
+        if (this._hold(msg)) return true;
+        const state = this._streams.get(msg.requestId);
+        if (!state) return true;
+        state.local.abort();
+        this._finish(state, 'Client disconnected');
+        return true;
+      }
+      case 'ack': {
+        const state = this._streams.get(msg.requestId);
+        if (!state) return true;
+        state.unacked -= msg.bytes;
+        this._maybeResume(state);
+        return true;
+      }
+      case 'ws-open':
+        this._openSocket(msg);
+        return true;
+      case 'ws-message': {
+        const state = this._sockets.get(msg.requestId);
+        if (!state || state.local.readyState !== WebSocket.OPEN) return true;
+        const data = Buffer.from(msg.data, 'base64');
+        state.info.messagesIn++;
+        state.info.bytesIn += data.length;
+        state.local.send(msg.binary ? data : data.toString(), { binary: msg.binary });
+        return true;
+      }
+      case 'ws-close': {
+        const state = this._sockets.get(msg.requestId);
+        if (!state) return true;
+        if (isSendableCloseCode(msg.code)) state.local.close(msg.code, msg.reason);
+        else state.local.close();
+        this._closeSocket(state, msg.code, msg.reason);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /** Abandon every in-flight request and proxied socket (the relay connection is gone) */
+  abortAll(): void {
+    for (const waiting of this._waiting.values()) this._abandon(waiting, 'Tunnel disconnected');
+    for (const state of this._streams.values()) {
+      state.local.abort();
+      this._finish(state, 'Tunnel disconnected');
+    }
+    for (const state of this._sockets.values()) {
+      state.local.terminate();
+      this._closeSocket(state, 1001, 'Tunnel disconnected');
+    }
+  }
+
+  private _openSocket(msg: SocketOpen): void {
+    const { requestId } = msg;
+
+    if (this._draining) {
+      this._send({ type: 'ws-rejected', requestId, status: 503 });
+      this._emitRejection(requestId, 'GET', msg.path, msg.headers, SHUTTING_DOWN, 'draining', true);
+      return;
+    }
+
+    const retryAfter = this._options.rateLimiter?.take(callerAddress(msg.headers) || 'unknown') ?? null;
+    if (retryAfter !== null) {
+      this._send({ type: 'ws-rejected', requestId, status: 429 });
+      this._emitRejection(requestId, 'GET', msg.path, msg.headers, this._throttle(), 'rate-limit', true);
+      return;
+    }
+
+    const denial = this._options.access?.check(msg.headers);
+    if (denial) {
+      this._send({ type: 'ws-rejected', requestId, status: denial.status });
+      this._emitRejection(requestId, 'GET', msg.path, msg.headers, denial, 'access', true);
+      return;
+    }
+
+    const route = this._options.router.resolve(msg.path, msg.headers);
+    if (!route) {
+      this._send({ type: 'ws-rejected', requestId, status: 502 });
+      this.emit('socket-open', {
+        requestId, path: msg.path, headers: msg.headers, status: 502,
+        messagesIn: 0, messagesOut: 0, bytesIn: 0, bytesOut: 0, duration: 0,
+      } as SocketInfo);
+      return;
+    }
+
+    const headers: Headers = {};
+    for (const [key, val] of Object.entries(stripHopByHop(msg.headers))) {
+      if (WS_HANDSHAKE.includes(key.toLowerCase())) continue;
+      headers[key] = val;
+    }
+    const upstream = formatUpstream(route.upstream);
+    headers['host'] = hostPort(route.upstream);
+    const rewritten = this._options.rewriter?.request(msg.headers, headers) ?? headers;
+
+    const { secure } = route.upstream;
+    const local = new WebSocket(
+      `${secure ? 'wss' : 'ws'}://${hostPort(route.upstream)}${route.path}`,
+      msg.protocols,
+      {
+        headers: rewritten as http.OutgoingHttpHeaders,
+        ...(secure ? tlsRequestOptions(this._options.tls) : {}),
+        ...(route.upstream.connect ? { createConnection: route.upstream.connect } : {}),
+      }
+    );
+
+    const state: SocketState = {
+      local,
+      startMs: Date.now(),
+      opened: false,
+      info: {
+        requestId,
+        path: msg.path,
+        headers: msg.headers,
+        status: 0,
+        messagesIn: 0,
+        messagesOut: 0,
+        bytesIn: 0,
+        bytesOut: 0,
+        duration: 0,
+        upstream,
+      },
+    };
+    this._sockets.set(requestId, state);
+
+    const reject = (status: number) => {
+      if (state.opened || !this._sockets.has(requestId)) return;
+      this._sockets.delete(requestId);
+      state.info.status = status;
+      state.info.duration = Date.now() - state.startMs;
+      this._send({ type: 'ws-rejected', requestId, status });
+      this.emit('socket-open', { ...state.info });
+    };
+
+    local.on('open', () => {
+      state.opened = true;
+      state.info.status = 101;
+      state.info.duration = Date.now() - state.startMs;
+      this._send(local.protocol
+        ? { type: 'ws-opened', requestId, protocol: local.protocol }
+        : { type: 'ws-opened', requestId });
+      this.emit('socket-open', { ...state.info });
+    });
+
+    local.on('unexpected-response', (_req, res) => {
+      reject(res.statusCode ?? 502);
+      local.terminate();
+    });
+
+    local.on('message', (data: Buffer, isBinary: boolean) => {
+      state.info.messagesOut++;
+      state.info.bytesOut += data.length;
+      this._send({ type: 'ws-message', requestId, data: data.toString('base64'), binary: isBinary });
+    });
+
+    local.on('close', (code: number, reason: Buffer) => {
+      if (!this._sockets.has(requestId)) return;
+      const reasonStr = reason.toString();
+      this._send(isSendableCloseCode(code)
+        ? { type: 'ws-close', requestId, code, reason: reasonStr }
+        : { type: 'ws-close', requestId });
+      this._closeSocket(state, code, reasonStr);
+    });
+
+    local.on('error', () => {
+      // Errors before the handshake completes mean the local service is unreachable
+      reject(502);
+    });
+  }
+
+  private _closeSocket(state: SocketState, code?: number, reason?: string): void {
+    if (!this._sockets.delete(state.info.requestId) || !state.opened) return;
+    state.info.code = code;
+    state.info.reason = reason;
+    state.info.duration = Date.now() - state.startMs;
+    this.emit('socket-close', { ...state.info });
+  }
+
+  private _open(request: ForwardedRequest): void {
+    if (this._draining) {
+      this._respond(request.requestId, 503, { error: 'Service Unavailable', message: SHUTTING_DOWN.reason });
+      this._emitRejection(request.requestId, request.method, request.path, request.headers, SHUTTING_DOWN, 'draining', false);
+      return;
+    }
+
+    // Preflights carry no credentials, so they are answered before the access check
+    const preflight = this._options.rewriter?.preflight(request.method, request.headers);
+    if (preflight) {
+      this._respondDirect(request, preflight.status, preflight.headers);
+      return;
+    }
+
+    const retryAfter = this._options.rateLimiter?.take(callerAddress(request.headers) || 'unknown') ?? null;
+    if (retryAfter !== null) {
+      const { status, reason } = this._throttle();
+      this._respond(request.requestId, status, { error: 'Too Many Requests', message: `${reason}; retry in ${retryAfter}s` }, {
+        'retry-after': String(retryAfter),
+      });
+      this._emitRejection(request.requestId, request.method, request.path, request.headers, { status, reason }, 'rate-limit', false);
+      return;
+    }
+
+    const denial = this._options.access?.check(request.headers);
+    if (denial) {
+      this._reject(request, denial);
+      return;
+    }
+
+    const { concurrency } = this._options;
+    if (!concurrency) {
+      this._start(request, 0);
+      return;
+    }
+    const waiting: WaitingRequest = { request, frames: [], since: Date.now() };
+    this._waiting.set(request.requestId, waiting);
+    const admission = concurrency.admit(request.requestId, () => this._dequeue(waiting));
+    if (admission === 'queued') {
+      this.emit('queued', {
+        requestId: request.requestId,
+        method: request.method,
+        path: request.path,
+        remoteAddress: callerAddress(request.headers),
+        position: concurrency.queued,
+      } as QueuedRequest);
+    } else if (admission === 'full') {
+      this._waiting.delete(request.requestId);
+      const reason = concurrency.overflow === 'reject'
+        ? `Limit of ${concurrency.max} concurrent requests reached`
+        : `Queue full (${concurrency.queued} waiting)`;
+      this._respond(request.requestId, 503, { error: 'Service Unavailable', message: reason }, { 'retry-after': '1' });
+      this._emitRejection(request.requestId, request.method, request.path, request.headers, { status: 503, reason }, 'overflow', false);
+    }
+  }
+
+  /** Forward a request that passed the checks; `queued` is how long it waited for a slot */
+  private _start(request: ForwardedRequest, queued: number): void {
+    if (this._options.middleware?.length || this._options.verifier?.reject || this._options.mock?.options.mode === 'replay') {
+      this._buffer(request, queued);
+      return;
+    }
+
+    const route = this._options.router.resolve(request.path, request.headers);
+    if (!route) {
+      this._noRoute(request);
+      this._options.concurrency?.release(request.requestId);
+      return;
+    }
+
+    const initial = Buffer.from(request.body, 'base64');
+    const headers = this._streaming
+      ? request.headers
+      : { ...request.headers, 'content-length': String(initial.length) };
+
+    const state = this._track(request, initial, formatUpstream(route.upstream), queued);
+    state.route = formatRule(route.rule);
+    state.local = streamToLocal(
+      route.upstream,
+      { ...request, path: route.path, headers },
+      this._streaming ? this._streamingSink(state) : this._bufferedSink(state),
+      { rewriter: this._options.rewriter, tls: this._options.tls, resilience: this._options.resilience }
+    );
+
+    if (initial.length > 0) state.local.write(initial);
+    if (!this._streaming) state.local.end();
+  }
+
+  /** A slot freed up for a queued request: start it and feed it the body frames held meanwhile */
+  private _dequeue(waiting: WaitingRequest): void {
+    this._waiting.delete(waiting.request.requestId);
+    this._start(waiting.request, Date.now() - waiting.since);
+    for (const frame of waiting.frames) this.handle(frame);
+    this._checkDrained();
+  }
+
+  /**
+   * Hold body frames for a request still in the queue. They are not acked,
+   * so the relay stops sending once its window is full. Returns false when
+   * the request is not queued.
+   */
+  private _hold(msg: RequestData | RequestEnd | RequestAbort): boolean {
+    const waiting = this._waiting.get(msg.requestId);
+    if (!waiting) return false;
+    if (msg.type === 'request-abort') this._abandon(waiting, 'Client disconnected while queued');
+    else waiting.frames.push(msg);
+    return true;
+  }
+
+  /** Drop a queued request that will never start */
+  private _abandon(waiting: WaitingRequest, error: string): void {
+    const { request } = waiting;
+    this._waiting.delete(request.requestId);
+    this._options.concurrency?.release(request.requestId);
+    this.emit('exchange', {
+      request,
+      status: 0,
+      headers: {},
+      responseBody: Buffer.alloc(0),
+      bytesIn: Buffer.from(request.body, 'base64').length,
+      bytesOut: 0,
+      duration: 0,
+      error,
+      queued: Date.now() - waiting.since,
+    } as Exchange);
+    this._checkDrained();
+  }
+
+  private _throttle(): { status: number; reason: string } {
+    const { limit } = this._options.rateLimiter!;
+    return { status: 429, reason: `Rate limit of ${formatRateLimit(limit)} per caller exceeded` };
+  }
+
+  /** Start bookkeeping for a request; the caller sets `local` */
+  private _track(request: ForwardedRequest, initial: Buffer, upstream: string, queued: number): StreamState {
+    const state: StreamState = {
+      request,
+      upstream,
+      local: null as unknown as LocalStream,
+      startMs: Date.now(),
+      requestChunks: [],
+      requestHeld: 0,
+      bytesIn: initial.length,
+      responseChunks: [],
+      responseHeld: 0,
+      bytesOut: 0,
+      status: 0,
+      headers: {},
+      unacked: 0,
+      paused: false,
+      queued,
+      signature: this._options.verifier?.begin(request.headers) ?? null,
+    };
+    state.requestHeld = capture(state.requestChunks, 0, initial);
+    state.signature?.update(initial);
+    this._streams.set(request.requestId, state);
+    return state;
+  }
+
+  /** Collect the whole request body, check its signature if bad ones are rejected, then run it through the middleware */
+  private _buffer(request: ForwardedRequest, queued: number): void {
+    const body: Buffer[] = [Buffer.from(request.body, 'base64')];
+    const state = this._track(request, body[0], '', queued);
+    let size = body[0].length;
+    let refused = false;
+    const refuse = () => {
+      refused = true;
+      body.length = 0;
+      this._refuseTooLarge(state);
+    };
+    state.local = {
+      // Acked straight away, so the size cap is what bounds memory here
+      write: (chunk, cb) => {
+        cb?.();
+        if (refused) return;
+        size += chunk.length;
+        if (size > BUFFER_LIMIT) refuse();
+        else body.push(chunk);
+      },
+      end: () => {
+        if (refused) return;
+        const { method, path, headers } = request;
+        const whole = Buffer.concat(body);
+        const verification = this._options.verifier?.reject ? state.signature?.finish(whole) : undefined;
+        if (verification && !verification.valid) {
+          this._refuseUnsigned(state, verification);
+          return;
+        }
+        void this._runMiddleware(state, { method, path, headers, body: whole });
+      },
+      // _finish has already dropped the state; the result is discarded when it arrives
+      abort: () => {},
+      pause: () => {},
+      resume: () => {},
+    };
+    if (size > BUFFER_LIMIT) refuse();
+    else if (!this._streaming) state.local.end();
+  }
+
+  private async _runMiddleware(state: StreamState, request: BufferedRequest): Promise<void> {
+    const middleware = this._options.middleware ?? [];
+    const run = async (index: number, req: BufferedRequest): Promise<BufferedResponse> => {
+      const handler = middleware[index];
+      if (!handler) return this._forwardBuffered(state, req);
+      const result = await handler(req, (next = req) => run(index + 1, next));
+      if (!result || typeof result.status !== 'number') {
+        throw new Error('Middleware must return a response, e.g. the one from next()');
+      }
+      const body = result.body ?? Buffer.alloc(0);
+      return { status: result.status, headers: result.headers ?? {}, body: Buffer.isBuffer(body) ? body : Buffer.from(body) };
+    };
+
+    let response: BufferedResponse;
+    let error: string | undefined;
+    try {
+      response = await run(0, request);
+    } catch (err) {
+      error = `Middleware failed: ${(err as Error).message}`;
+      response = { status: 500, headers: { 'content-type': 'application/json' }, body: jsonBody({ error }) };
+    }
+    if (this._streams.get(state.request.requestId) !== state) return;
+
+    const headers: Headers = {};
+    for (const [key, val] of Object.entries(response.headers)) {
+      if (key.toLowerCase() === 'content-length' || HOP_BY_HOP.includes(key.toLowerCase())) continue;
+      headers[key] = val;
+    }
+    headers['content-length'] = String(response.body.length);
+    this._sendWhole(state, response.status, headers, response.body);
+    this._finish(state, error);
+  }
+
+  /** The end of the middleware chain: answer from a fixture when replaying, or route the request and forward it whole */
+  private async _forwardBuffered(state: StreamState, request: BufferedRequest): Promise<BufferedResponse> {
+    const { mock } = this._options;
+    if (mock?.options.mode === 'replay') {
+      const match = mock.find(request);
+      if (match) {
+        state.fixture = match.file;
+        return match.response;
+      }
+      if (mock.options.fallback === '404') {
+        const message = `No fixture for ${request.method} ${request.path}`;
+        return { status: 404, headers: { 'content-type': 'application/json' }, body: jsonBody({ error: 'Not Found', message }) };
+      }
+    }
+
+    const route = this._options.router.resolve(request.path, request.headers);
+    if (!route) {
+      const error = `No route for ${request.path.split('?')[0]}`;
+      return { status: 502, headers: { 'content-type': 'application/json' }, body: jsonBody({ error }) };
+    }
+    state.upstream = formatUpstream(route.upstream);
+    state.route = formatRule(route.rule);
+    const response = await forwardToLocal(
+      route.upstream,
+      {
+        type: 'request',
+        requestId: state.request.requestId,
+        method: request.method,
+        path: route.path,
+        headers: request.headers,
+        body: request.body.toString('base64'),
+      },
+      { rewriter: this._options.rewriter, tls: this._options.tls, resilience: this._options.resilience },
+      (failure) => { state.failure = failure; }
+    );
+    return { status: response.status, headers: response.headers, body: Buffer.from(response.body, 'base64') };
+  }
+
+  /** Send a response that is already complete, in frames of at most STREAM_WINDOW bytes when streaming */
+  private _sendWhole(state: StreamState, status: number, headers: Headers, body: Buffer): void {
+    const { requestId } = state.request;
+    state.status = status;
+    state.headers = headers;
+    state.bytesOut = body.length;
+    state.responseHeld = capture(state.responseChunks, 0, body);
+
+    if (!this._streaming) {
+      this._send({ type: 'response', requestId, status, headers, body: body.toString('base64') });
+      return;
+    }
+    this._send({ type: 'response-start', requestId, status, headers });
+    for (let offset = 0; offset < body.length; offset += STREAM_WINDOW) {
+      this._send({ type: 'response-data', requestId, data: body.subarray(offset, offset + STREAM_WINDOW).toString('base64') });
+    }
+    this._send({ type: 'response-end', requestId });
+  }
+
+  private _streamingSink(state: StreamState): ResponseSink {
+    const requestId = state.request.requestId;
+    return {
+      failed: (failure) => { state.failure = failure; },
+      retrying: (attempt) => { state.attempts = attempt; },
+      head: (status, headers) => {
+        state.status = status;
+        state.headers = headers;
+        this._send({ type: 'response-start', requestId, status, headers });
+      },
+      data: (chunk) => {
+        state.bytesOut += chunk.length;
+        state.responseHeld = capture(state.responseChunks, state.responseHeld, chunk);
+        state.unacked += chunk.length;
+        this._send({ type: 'response-data', requestId, data: chunk.toString('base64') }, () => this._maybeResume(state));
+        if (state.unacked >= STREAM_WINDOW || this._ws.bufferedAmount >= WS_HIGH_WATER) {
+          state.paused = true;
+          state.local.pause();
+        }
+      },
+      end: (error) => {
+        this._send(error ? { type: 'response-end', requestId, error } : { type: 'response-end', requestId });
+        this._finish(state, error);
+      },
+    };
+  }
+
+  private _bufferedSink(state: StreamState): ResponseSink {
+    const requestId = state.request.requestId;
+    const chunks: Buffer[] = [];
+    return {
+      failed: (failure) => { state.failure = failure; },
+      retrying: (attempt) => { state.attempts = attempt; },
+      head: (status, headers) => {
+        state.status = status;
+        state.headers = headers;
+      },
+      data: (chunk) => {
+        state.bytesOut += chunk.length;
+        state.responseHeld = capture(state.responseChunks, state.responseHeld, chunk);
+        chunks.push(chunk);
+      },
+      end: (error) => {
+        if (error) {
+          state.status = 502;
+          this._send(makeErrorResponse(requestId, 502, { error }));
+        } else {
+          this._send({
+            type: 'response',
+            requestId,
+            status: state.status,
+            headers: state.headers,
+            body: Buffer.concat(chunks).toString('base64'),
+          });
+        }
+        this._finish(state, error);
+      },
+    };
+  }
+
+  /** Answer a request that failed the access rules without touching the local port */
+  private _reject(request: ForwardedRequest, denial: AccessDenial): void {
+    const error = denial.status === 401 ? 'Unauthorized' : 'Forbidden';
+    this._respond(request.requestId, denial.status, { error }, denial.headers);
+    this._emitRejection(request.requestId, request.method, request.path, request.headers, denial, 'access', false);
+  }
+
+  /** Answer a request whose webhook signature did not check out, before it reaches the local service */
+  private _refuseUnsigned(state: StreamState, verification: Verification): void {
+    const { request } = state;
+    this._streams.delete(request.requestId);
+    this._options.concurrency?.release(request.requestId);
+    const reason = `Invalid ${providerName(verification.provider)} signature: ${verification.reason}`;
+    this._respond(request.requestId, 401, { error: 'Unauthorized', message: reason });
+    this._emitRejection(request.requestId, request.method, request.path, request.headers, { status: 401, reason }, 'signature', false);
+    this._checkDrained();
+  }
+
+  /** Answer a request whose body is too large to hold whole, before it reaches middleware or the local service */
+  private _refuseTooLarge(state: StreamState): void {
+    const { request } = state;
+    this._streams.delete(request.requestId);
+    this._options.concurrency?.release(request.requestId);
+    const reason = `Request body over ${BUFFER_LIMIT / 1024 / 1024} MB, too large to hold for inspection`;
+    this._respond(request.requestId, 413, { error: 'Payload Too Large', message: reason });
+    this._emitRejection(request.requestId, request.method, request.path, request.headers, { status: 413, reason }, 'too-large', false);
+    this._checkDrained();
+  }
+
+  /** No route matched and there is no default upstream */
+  private _noRoute(request: ForwardedRequest): void {
+    const error = `No route for ${request.path.split('?')[0]}`;
+    const body = this._respond(request.requestId, 502, { error });
+    this.emit('exchange', {
+      request,
+      status: 502,
+      headers: { 'content-type': 'application/json' },
+      responseBody: body,
+      bytesIn: Buffer.from(request.body, 'base64').length,
+      bytesOut: body.length,
+      duration: 0,
+      error,
+    } as Exchange);
+  }
+
+  /** Answer a request with an empty body and report it like any other exchange */
+  private _respondDirect(request: ForwardedRequest, status: number, headers: Headers): void {
+    const { requestId } = request;
+    if (this._streaming) {
+      this._send({ type: 'response-start', requestId, status, headers });
+      this._send({ type: 'response-end', requestId });
+    } else {
+      this._send({ type: 'response', requestId, status, headers, body: '' });
+    }
+    this.emit('exchange', {
+      request,
+      status,
+      headers,
+      responseBody: Buffer.alloc(0),
+      bytesIn: Buffer.from(request.body, 'base64').length,
+      bytesOut: 0,
+      duration: 0,
+    } as Exchange);
+  }
+
+  /** Answer a request from the client itself with a small JSON body */
+  private _respond(requestId: string, status: number, payload: unknown, extra: Headers = {}): Buffer {
+    const body = jsonBody(payload);
+    const headers: Headers = {
+      'content-type': 'application/json',
+      'content-length': String(body.length),
+      ...extra,
+    };
+
+    if (this._streaming) {
+      this._send({ type: 'response-start', requestId, status, headers });
+      this._send({ type: 'response-data', requestId, data: body.toString('base64') });
+      this._send({ type: 'response-end', requestId });
+    } else {
+      this._send({ type: 'response', requestId, status, headers, body: body.toString('base64') });
+    }
+    return body;
+  }
+
+  private _emitRejection(
+    requestId: string,
+    method: string,
+    path: string,
+    headers: Headers,
+    denial: { status: number; reason: string },
+    cause: Rejection['cause'],
+    upgrade: boolean
+  ): void {
+    const rejection: Rejection = {
+      requestId,
+      method,
+      path,
+      status: denial.status,
+      reason: denial.reason,
+      cause,
+      remoteAddress: callerAddress(headers),
+      upgrade,
+    };
+    this.emit('rejected', rejection);
+  }
+
+  private _maybeResume(state: StreamState): void {
+    if (!state.paused) return;
+    if (state.unacked > STREAM_WINDOW / 2 || this._ws.bufferedAmount >= WS_HIGH_WATER) return;
+    state.paused = false;
+    state.local.resume();
+  }
+
+  private _finish(state: StreamState, error?: string): void {
+    if (!this._streams.delete(state.request.requestId)) return;
+    const body = Buffer.concat(state.requestChunks);
+    const exchange: Exchange = {
+      request: { ...state.request, body: body.toString('base64') },
+      status: state.status,
+      headers: state.headers,
+      responseBody: Buffer.concat(state.responseChunks),
+      bytesIn: state.bytesIn,
+      bytesOut: state.bytesOut,
+      duration: Date.now() - state.startMs,
+      error,
+      upstream: state.upstream || undefined,
+      route: state.route,
+      failure: state.failure,
+      attempts: state.attempts,
+      queued: state.queued || undefined,
+      verification: state.signature?.finish(body),
+      fixture: state.fixture,
+    };
+    const { mock } = this._options;
+    if (mock?.options.mode === 'record') {
+      try {
+        exchange.fixture = mock.save(exchange) ?? undefined;
+      } catch (err) {
+        exchange.error = `Could not save fixture: ${(err as Error).message}`;
+      }
+    }
+    this.emit('exchange', exchange);
+    this._options.concurrency?.release(state.request.requestId);
+    this._checkDrained();
+  }
+
+  private _checkDrained(): void {
+    if (!this._draining || this.pending > 0) return;
+    const waiters = this._onDrained;
+    this._onDrained = [];
+    for (const resolve of waiters) resolve();
+  }
+
+  private _send(msg: ClientMessage, cb?: () => void): void {
+    if (this._ws.readyState !== WebSocket.OPEN) return;
+    this._ws.send(this._encoder.encode(msg), cb);
+  }
+}
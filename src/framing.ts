@@ -0,0 +1,160 @@
+import * as zlib from 'zlib';
+import type { ClientMessage, Headers, ServerFrame } from './protocol';
+
+// ─── Binary framing ──────────────────────────────────────────────────────────
+// With the `binary` feature, frames that carry a body travel as binary
+// WebSocket messages instead of JSON with the body in base64:
+//
+//   byte 0      flags (bit 0: payload is raw-deflated)
+//   bytes 1-4   header length n, uint32 big-endian
+//   bytes 5…    n bytes of JSON: the frame without its body field
+//   the rest    the body, as raw bytes
+//
+// Frames without a body (acks, ends, closes) stay JSON text either way; a
+// receiver tells the two forms apart by whether the WebSocket message is text
+// or binary. `deflate` adds per-frame compression of bodies on top.
+//
+// In memory, frames keep their base64 body fields: only the wire form
+// changes, so nothing past the socket needs to know which was negotiated.
+
+/** How one end of a connection sends frames, as negotiated at registration */
+export interface FramingOptions {
+  /** Send bodies as raw bytes in binary messages */
+  binary: boolean;
+  /** Deflate bodies that shrink; needs `binary` */
+  compress: boolean;
+}
+
+type Frame = ServerFrame | ClientMessage;
+
+/** The framing a relay agreed to, from the features in `registered` */
+export function negotiatedFraming(features: string[]): FramingOptions {
+  const binary = features.includes('binary');
+  return { binary, compress: binary && features.includes('deflate') };
+}
+
+/** The field carrying each frame type's body */
+const PAYLOAD_FIELDS: Partial<Record<Frame['type'], 'body' | 'data'>> = {
+  'request': 'body',
+  'response': 'body',
+  'request-data': 'data',
+  'response-data': 'data',
+  'ws-message': 'data',
+  'tcp-data': 'data',
+};
+
+const FLAG_DEFLATED = 1;
+
+const PREFIX_LENGTH = 5;
+
+/** Bodies smaller than this are sent as they are; compressing them saves next to nothing */
+const COMPRESS_MIN = 1024;
+
+/** Matches ws's default maxPayload, so an inflated body is never larger than a plain one could be */
+const MAX_INFLATED = 100 * 1024 * 1024;
+
+/** Streams remembered as not worth compressing, before the oldest are forgotten */
+const MAX_SKIPPED = 10_000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function headerValue(headers: Headers, name: string): string {
+  const val = headers[name];
+  return (Array.isArray(val) ? val[0] : val) ?? '';
+}
+
+/** Whether a body with these headers is likely to shrink: not already compressed, not media */
+function compressible(headers: Headers): boolean {
+  const encoding = headerValue(headers, 'content-encoding').trim().toLowerCase();
+  if (encoding && encoding !== 'identity') return false;
+  const type = headerValue(headers, 'content-type').toLowerCase();
+  if (type.includes('svg')) return true;
+  return !/^(image|video|audio|font)\/|zip|compressed|octet-stream|pdf|wasm|protobuf/.test(type);
+}
+
+// ─── Encoding ────────────────────────────────────────────────────────────────
+
+/**
+ * Encodes the frames one end sends over a relay connection. Keeps track of
+ * which request and response bodies are already compressed (going by the
+ * headers that opened them), so their data frames skip deflate.
+ */
+export class FrameEncoder {
+  private _skipped = new Set<string>();
+
+  constructor(readonly options: FramingOptions = { binary: false, compress: false }) {}
+
+  encode(frame: Frame): string | Buffer {
+    const field = this.options.binary ? PAYLOAD_FIELDS[frame.type] : undefined;
+    const skip = this._track(frame);
+    if (!field) return JSON.stringify(frame);
+
+    const { [field]: body, ...header } = frame as unknown as Record<string, unknown>;
+    let payload = Buffer.from(body as string, 'base64');
+    let flags = 0;
+    if (this.options.compress && !skip && payload.length >= COMPRESS_MIN) {
+      const deflated = zlib.deflateRawSync(payload, { level: zlib.constants.Z_BEST_SPEED });
+      // Not worth the receiver's time unless it saves at least a tenth
+      if (deflated.length < payload.length * 0.9) {
+        payload = deflated;
+        flags |= FLAG_DEFLATED;
+      }
+    }
+    const head = Buffer.from(JSON.stringify(header));
+    const prefix = Buffer.alloc(PREFIX_LENGTH);
+    prefix[0] = flags;
+    prefix.writeUInt32BE(head.length, 1);
+    return Buffer.concat([prefix, head, payload]);
+  }
+
+  /** Note the streams that open with a compressed body and forget those that end. Returns whether to skip deflate. */
+  private _track(frame: Frame): boolean {
+    if (!this.options.compress) return true;
+    switch (frame.type) {
+      case 'request':
+      case 'response':
+      case 'response-start': {
+        const skip = !compressible(frame.headers);
+        if (skip && frame.type !== 'response') {
+          this._skipped.add(frame.requestId);
+          if (this._skipped.size > MAX_SKIPPED) this._skipped.delete(this._skipped.values().next().value!);
+        }
+        return skip;
+      }
+      case 'request-end':
+      case 'request-abort':
+      case 'response-end':
+        this._skipped.delete(frame.requestId);
+        return true;
+      case 'tcp-data':
+        // Raw TCP is as likely to be TLS as anything else
+        return true;
+      case 'request-data':
+      case 'response-data':
+        return this._skipped.has(frame.requestId);
+      default:
+        return false;
+    }
+  }
+}
+
+// ─── Decoding ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a message from the other end, JSON text or binary. Binary frames are
+ * understood whatever was negotiated. Throws on anything malformed.
+ */
+export function decodeFrame<T extends Frame>(data: Buffer, isBinary: boolean): T {
+  if (!isBinary) return JSON.parse(data.toString()) as T;
+  if (data.length < PREFIX_LENGTH) throw new Error('Truncated frame');
+  const flags = data[0];
+  const end = PREFIX_LENGTH + data.readUInt32BE(1);
+  if (end > data.length) throw new Error('Truncated frame');
+  const frame = JSON.parse(data.subarray(PREFIX_LENGTH, end).toString()) as Record<string, unknown>;
+  const field = PAYLOAD_FIELDS[frame.type as Frame['type']];
+  if (!field) throw new Error(`Unexpected binary ${String(frame.type)} frame`);
+  let payload = data.subarray(end);
+  if (flags & FLAG_DEFLATED) payload = zlib.inflateRawSync(payload, { maxOutputLength: MAX_INFLATED });
+  frame[field] = payload.toString('base64');
+  return frame as unknown as T;
+}
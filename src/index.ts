@@ -1,11 +1,56 @@
 #!/usr/bin/env node
 import { program } from 'commander';
 import WebSocket from 'ws';
-import * as http from 'http';
-import * as https from 'https';
 import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import QRCode from 'qrcode';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  CLIENT_FEATURES,
+  FEATURES_HEADER,
+  ForwardedRequest,
+  RegisterErrorCode,
+  SESSION_HEADER,
+  ServerFrame,
+  SUBDOMAIN_HEADER,
+  TCP_CLIENT_FEATURES,
+  TUNNEL_TYPE_HEADER,
+  isValidSubdomain,
+  resolveServerUrl,
+} from './protocol';
+import { Exchange, QueuedRequest, SocketInfo, StreamDispatcher, forwardToLocal, replayToLocal } from './forward';
+import { Inspector } from './inspector';
+import { ConnectionInfo, TcpDispatcher } from './tcp';
+import { startServer } from './server';
+import { Recorder, filterRecording, readRecording, toHar } from './record';
+import { AccessControl, Rejection } from './access';
+import { CONFIG_FILES, TunnrlConfig, findConfig, loadConfig } from './config';
+import { RouteRule, Router, Upstream, connectHost, formatRule, formatUpstream, localUpstream, parseRoute, parseUpstream } from './routes';
+import { RewriteOptions, Rewriter, parseHeaderRule } from './rewrite';
+import { resolveAuthtoken, saveAuthtoken } from './credentials';
+import { UpstreamTls, loadUpstreamTls } from './tls';
+import { ConcurrencyLimiter, LimitOptions, RateLimiter, formatRateLimit, parseLimits } from './limits';
+import { Resilience, describeResilience, parseResilience } from './resilience';
+import { StaticOptions, staticUpstream } from './static';
+import { SignatureVerifier, VerifyOptions, providerName, parseVerifyRule } from './verify';
+import { FixtureStore, MockOptions, parseMockOptions } from './mock';
+import { decodeFrame, negotiatedFraming } from './framing';
+import { MetricsServer, TrafficCounts, TrafficStats, formatPrometheus } from './metrics';
+import { OutputStream, PORT_SLOW_AFTER, WrappedCommand, updateEnvFile, urlVariable, waitForPort } from './child';
+import {
+  EXIT_CODES,
+  EventLog,
+  OUTPUT_MODES,
+  OutputMode,
+  connectionEvent,
+  exitCodeFor,
+  queuedEvent,
+  rejectedEvent,
+  requestEvent,
+  socketEvent,
+  writeUrlFile,
+} from './output';
 
 // ─── Chalk (ESM-only in v5, so we dynamic-import it) ─────────────────────────
 // We use a lazy loader so we can keep the file as CommonJS (ts-node default).
@@ -18,29 +63,6 @@ async function getChalk() {
   return _chalk;
 }
 
-// ─── Types ───────────────────────────────────────────────────────────────────
-
-interface ForwardedRequest {
-  type: 'request';
-  requestId: string;
-  method: string;
-  path: string;
-  headers: Record<string, string | string[]>;
-  body: string; // base64
-}
-
-interface ForwardedResponse {
-  type: 'response';
-  requestId: string;
-  status: number;
-  headers: Record<string, string | string[]>;
-  body: string; // base64
-}
-
-type ServerMessage =
-  | { type: 'registered'; subdomain: string; url: string }
-  | { type: 'error'; message: string };
-
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 function timestamp(): string {
@@ -104,317 +126,1516 @@ function copyToClipboard(text: string): Promise<boolean> {
   });
 }
 
-// ─── Local HTTP forwarder ─────────────────────────────────────────────────────
-
-function forwardToLocal(
-  localHost: string,
-  localPort: number,
-  request: ForwardedRequest
-): Promise<ForwardedResponse> {
-  return new Promise((resolve) => {
-    const bodyBuf = Buffer.from(request.body, 'base64');
-
-    // Strip hop-by-hop headers and rewrite host
-    const headers: Record<string, string | string[]> = {};
-    for (const [key, val] of Object.entries(request.headers)) {
-      const lower = key.toLowerCase();
-      if (['connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'proxy-connection', 'te', 'trailers'].includes(lower)) continue;
-      headers[key] = val;
-    }
-    headers['host'] = `${localHost}:${localPort}`;
-
-    const options: http.RequestOptions = {
-      hostname: localHost,
-      port: localPort,
-      path: request.path,
-      method: request.method,
-      headers: {
-        ...headers,
-        'content-length': bodyBuf.length,
-      },
-    };
-
-    const isHttps = localHost.startsWith('https://');
-    const transport = isHttps ? https : http;
-
-    const localReq = transport.request(options, (localRes) => {
-      const chunks: Buffer[] = [];
-      localRes.on('data', (chunk: Buffer) => chunks.push(chunk));
-      localRes.on('end', () => {
-        const responseBody = Buffer.concat(chunks);
-        resolve({
-          type: 'response',
-          requestId: request.requestId,
-          status: localRes.statusCode ?? 200,
-          headers: localRes.headers as Record<string, string | string[]>,
-          body: responseBody.toString('base64'),
-        });
-      });
-      localRes.on('error', () => {
-        resolve({
-          type: 'response',
-          requestId: request.requestId,
-          status: 502,
-          headers: { 'content-type': 'application/json' },
-          body: Buffer.from(JSON.stringify({ error: 'Local service error' })).toString('base64'),
-        });
-      });
-    });
+// ─── Main tunnel client ───────────────────────────────────────────────────────
 
-    localReq.on('error', () => {
-      // Local service is not running or refused connection
-      resolve({
-        type: 'response',
-        requestId: request.requestId,
-        status: 502,
-        headers: { 'content-type': 'application/json' },
-        body: Buffer.from(
-          JSON.stringify({ error: 'Bad Gateway', message: `Could not connect to ${localHost}:${localPort}. Is your local service running?` })
-        ).toString('base64'),
-      });
-    });
+/** One public URL to expose; a session runs one or more of these */
+interface TunnelSpec {
+  /** Shown in the log when a session runs more than one tunnel */
+  name: string;
+  /** Default upstream port; optional when every request is covered by `routes` */
+  port?: number;
+  host: string;
+  /** Path/host rules sending requests to other local services */
+  routes?: RouteRule[];
+  /** Serve a directory instead of forwarding to `port` */
+  static?: StaticOptions;
+  /** Header rules, host preservation and CORS */
+  rewrite?: RewriteOptions;
+  /** TLS settings for https:// upstreams; `ca`, `cert` and `key` may be file paths */
+  tls?: UpstreamTls;
+  /** Concurrency, queue and rate limits */
+  limits?: LimitOptions;
+  /** Timeout, retries and hold for requests to the local service */
+  resilience?: Resilience;
+  /** Webhook signatures to check */
+  verify?: VerifyOptions;
+  /** Record responses as fixtures, or answer from them */
+  mock?: MockOptions;
+  /** Raw TCP tunnel instead of HTTP */
+  tcp?: boolean;
+  /** Subdomain to ask the relay for */
+  subdomain?: string;
+  auth?: string;
+  token?: string;
+  allowIp?: string[];
+}
 
-    localReq.setTimeout(25_000, () => {
-      localReq.destroy();
-      resolve({
-        type: 'response',
-        requestId: request.requestId,
-        status: 504,
-        headers: { 'content-type': 'application/json' },
-        body: Buffer.from(JSON.stringify({ error: 'Gateway Timeout', message: 'Local service took too long to respond' })).toString('base64'),
-      });
-    });
+/** Settings shared by every tunnel in a session */
+interface SessionOptions {
+  qr?: boolean;
+  server?: string;
+  /** Sent to the relay when registering; falls back to TUNNRL_AUTHTOKEN and `tunnrl login` */
+  authtoken?: string;
+  inspect?: boolean;
+  inspectPort?: string;
+  /** Append every request/response pair to this file */
+  record?: string;
+  /** `pretty` (default) or `json` for NDJSON events on stdout */
+  output?: string;
+  /** Print only the public URL(s) */
+  quiet?: boolean;
+  /** Append NDJSON events to this file, whatever the output mode */
+  logFile?: string;
+  /** Keep the public URL(s) in this file, one per line */
+  urlFile?: string;
+  /** Set TUNNRL_URL in this dotenv file */
+  envFile?: string;
+  /** Run this alongside the tunnels (everything after `--`) */
+  command?: string[];
+  /** Seconds to let requests in flight finish on exit (default: 10) */
+  drainTimeout?: string;
+  /** Serve Prometheus metrics on this local port */
+  metricsPort?: string;
+}
 
-    if (bodyBuf.length > 0) {
-      localReq.write(bodyBuf);
-    }
-    localReq.end();
-  });
+/** Options of the root command and `tunnrl tcp` */
+interface TunnelOptions extends SessionOptions {
+  host: string;
+  subdomain?: string;
+  /** Raw TCP tunnel instead of HTTP (set by `tunnrl tcp`) */
+  tcp?: boolean;
+  auth?: string;
+  token?: string;
+  allowIp?: string[];
+  route?: string[];
+  requestHeader?: string[];
+  responseHeader?: string[];
+  preserveHost?: boolean;
+  cors?: boolean;
+  upstreamInsecure?: boolean;
+  upstreamCa?: string;
+  upstreamCert?: string;
+  upstreamKey?: string;
+  upstreamSni?: string;
+  maxConcurrent?: string;
+  queueSize?: string;
+  overflow?: string;
+  rateLimit?: string;
+  timeout?: string;
+  retries?: string;
+  hold?: string;
+  verify?: string[];
+  verifyReject?: boolean;
+  mock?: string;
+  mockMode?: string;
+  mockFallback?: string;
+  mockMatchBody?: boolean;
+  dir?: string;
+  spa?: boolean;
+  listing?: boolean;
 }
 
-// ─── Main tunnel client ───────────────────────────────────────────────────────
+interface ActiveTunnel {
+  spec: TunnelSpec;
+  router: Router;
+  access: AccessControl;
+  rewriter: Rewriter;
+  tls: UpstreamTls | null;
+  /** Kept across reconnects so in-flight counts and rate buckets carry over */
+  concurrency: ConcurrencyLimiter | null;
+  rateLimiter: RateLimiter | null;
+  verifier: SignatureVerifier | null;
+  mock: FixtureStore | null;
+  stats: TrafficStats;
+  ws: WebSocket | null;
+  dispatcher: StreamDispatcher | TcpDispatcher | null;
+  /** Public URL, set on registration */
+  url: string;
+  /** Registered at least once, so the next registration is a reconnect */
+  connected: boolean;
+  /** Subdomain the relay gave us last time, asked for again on reconnect */
+  claimed: string | null;
+  /** Lets the relay hand our subdomain back even if it still holds the old connection */
+  session: string;
+}
 
-interface TunnelOptions {
-  host: string;
-  qr?: boolean;
+/** What to try next when the relay refuses a registration */
+function registerHint(code: RegisterErrorCode | undefined, authtoken: string | undefined): string | null {
+  switch (code) {
+    case 'unauthorized':
+      return authtoken
+        ? 'Check the token from --authtoken, TUNNRL_AUTHTOKEN or `tunnrl login`'
+        : 'Pass --authtoken, set TUNNRL_AUTHTOKEN or run `tunnrl login <token>`';
+    case 'subdomain-taken':
+      return 'Pick another name with --subdomain, or stop the tunnel that is using it';
+    case 'subdomain-reserved':
+      return 'Register with the auth token this name is reserved for';
+    default:
+      return null;
+  }
 }
 
-async function startTunnel(port: number, opts: TunnelOptions): Promise<void> {
+async function startTunnels(specs: TunnelSpec[], opts: SessionOptions): Promise<void> {
   const chalk = await getChalk();
+  const serverUrl = resolveServerUrl(opts.server);
+  const authtoken = resolveAuthtoken(opts.authtoken);
+  const multi = specs.length > 1;
+  const nameWidth = Math.max(...specs.map((s) => s.name.length));
+
+  if (opts.output !== undefined && !OUTPUT_MODES.includes(opts.output as OutputMode)) {
+    console.error(`Error: --output must be ${OUTPUT_MODES.join(' or ')}, not "${opts.output}"`);
+    process.exit(EXIT_CODES.error);
+  }
+  const drainTimeout = Number(opts.drainTimeout ?? 10);
+  if (!(drainTimeout >= 0)) {
+    console.error(`Error: --drain-timeout must be a number of seconds, not "${opts.drainTimeout}"`);
+    process.exit(EXIT_CODES.error);
+  }
+  const json = opts.output === 'json';
+  // Banner, request table and notices; --output json and --quiet replace them
+  const pretty = !json && !opts.quiet;
+  const say = (...args: unknown[]): void => {
+    if (pretty) console.log(...args);
+  };
+
+  let events: EventLog;
+  try {
+    events = new EventLog(json, opts.logFile);
+  } catch (err) {
+    console.error(chalk.red(`  ✗ Cannot open ${opts.logFile}: ${(err as Error).message}`));
+    process.exit(EXIT_CODES.error);
+  }
+
+  // The command after `--`, started once the URLs are known; it and the tunnels stop together
+  const command = opts.command?.length ? new WrappedCommand(opts.command) : null;
+  let exiting = false;
+  let draining = false;
 
+  // One reconnect loop for every tunnel: whenever any of them drops, a single
+  // timer (with shared backoff) re-dials all the ones that are down.
   let reconnectDelay = 1000; // ms
   let reconnectAttempts = 0;
+  let reconnectTimer: NodeJS.Timeout | null = null;
   let shuttingDown = false;
-  let ws: WebSocket | null = null;
 
   // Circular buffer of the last 10 forwarded requests (for replay)
-  const recentRequests: ForwardedRequest[] = [];
+  const recentRequests: { request: ForwardedRequest; tunnel: ActiveTunnel }[] = [];
+
+  const tunnels: ActiveTunnel[] = [];
+  for (const spec of specs) {
+    try {
+      if (spec.subdomain !== undefined && !isValidSubdomain(spec.subdomain.toLowerCase())) {
+        const message = `Invalid subdomain "${spec.subdomain}": use lowercase letters, digits and hyphens`;
+        fail(`${multi ? `${spec.name}: ` : ''}${message}`, EXIT_CODES.subdomain, { tunnel: spec.name });
+      }
+      const access = new AccessControl({ auth: spec.auth, token: spec.token, allowIp: spec.allowIp });
+      const fallback = spec.static ? staticUpstream(spec.static)
+        : spec.port ? localUpstream(spec.host, spec.port)
+          : null;
+      const router = new Router(spec.routes ?? [], fallback);
+      const rewriter = new Rewriter(spec.rewrite);
+      const tls = loadUpstreamTls(spec.tls ?? {});
+      const { maxConcurrent, overflow, queueSize, rateLimit } = spec.limits ?? {};
+      const concurrency = maxConcurrent ? new ConcurrencyLimiter(maxConcurrent, overflow, queueSize) : null;
+      const rateLimiter = rateLimit ? new RateLimiter(rateLimit) : null;
+      const verifier = spec.verify?.rules.length ? new SignatureVerifier(spec.verify.rules, spec.verify.reject) : null;
+      const mock = spec.mock ? new FixtureStore(spec.mock) : null;
+      tunnels.push({
+        spec, router, access, rewriter, tls, concurrency, rateLimiter, verifier, mock, stats: new TrafficStats(),
+        ws: null, dispatcher: null, url: '', connected: false, claimed: null, session: uuidv4(),
+      });
+    } catch (err) {
+      fail(`${multi ? `${spec.name}: ` : ''}${(err as Error).message}`, EXIT_CODES.error, { tunnel: spec.name });
+    }
+  }
+  const httpTunnels = tunnels.filter((t) => !t.spec.tcp);
+  const tcpOnly = httpTunnels.length === 0;
+
+  // Persistent capture (HTTP tunnels only)
+  let recorder: Recorder | null = null;
+  if (opts.record && !tcpOnly) {
+    try {
+      recorder = new Recorder(opts.record);
+    } catch (err) {
+      fail(`Cannot open ${opts.record}: ${(err as Error).message}`);
+    }
+  }
+
+  // Local web inspector (HTTP tunnels only)
+  let inspector: Inspector | null = null;
+  if (!tcpOnly && opts.inspect !== false) {
+    const candidate = new Inspector({
+      port: opts.inspectPort ? parseInt(opts.inspectPort, 10) : 4040,
+      replay: (request, name) => {
+        const { router, rewriter, tls, spec } = httpTunnels.find((t) => t.spec.name === name) ?? httpTunnels[0];
+        return replayToLocal(router, request, { rewriter, tls, resilience: spec.resilience });
+      },
+    });
+    try {
+      await candidate.listen();
+      inspector = candidate;
+    } catch (err) {
+      warn((err as Error).message);
+    }
+  }
+
+  // Prometheus endpoint (HTTP tunnels only)
+  let metrics: MetricsServer | null = null;
+  if (!tcpOnly && opts.metricsPort !== undefined) {
+    const port = Number(opts.metricsPort);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      fail(`--metrics-port must be a port number, not "${opts.metricsPort}"`);
+    }
+    const candidate = new MetricsServer(() => formatPrometheus(
+      httpTunnels.map((tunnel) => ({ name: tunnel.spec.name, stats: tunnel.stats.snapshot() }))
+    ));
+    try {
+      await candidate.listen(port);
+      metrics = candidate;
+    } catch (err) {
+      warn((err as Error).message);
+    }
+  }
+
+  // Tunnel name column, only when there is more than one tunnel
+  function nameCol(tunnel: ActiveTunnel): string {
+    return multi ? `${chalk.bold(tunnel.spec.name.padEnd(nameWidth))}  ` : '';
+  }
+
+  // What the tunnel forwards to, for the banner and `connected` events
+  function describeLocal(tunnel: ActiveTunnel): string {
+    const { fallback, rules } = tunnel.router;
+    return fallback ? formatUpstream(fallback) : `${rules.length} route${rules.length === 1 ? '' : 's'}`;
+  }
+
+  function warn(message: string, tunnel?: ActiveTunnel): void {
+    say(chalk.yellow(`  ⚠ ${message}`));
+    events.write({ type: 'warning', tunnel: tunnel?.spec.name, message });
+  }
 
-  // Current tunnel URL (set on registration, used by keyboard shortcuts)
-  let tunnelUrl = '';
+  // Requests still being forwarded or queued, across every HTTP tunnel
+  function pending(): number {
+    let count = 0;
+    for (const tunnel of tunnels) {
+      if (tunnel.dispatcher instanceof StreamDispatcher) count += tunnel.dispatcher.pending;
+    }
+    return count;
+  }
+
+  // Turn new requests away and give those in flight up to --drain-timeout to finish
+  async function drain(): Promise<void> {
+    const count = pending();
+    if (count === 0 || drainTimeout === 0) return;
+    draining = true;
+    say(chalk.yellow(`  Waiting for ${count} request${count === 1 ? '' : 's'} in flight (up to ${drainTimeout}s; press Ctrl+C again to quit now)…`));
+    events.write({ type: 'draining', pending: count });
+    const results = await Promise.all(tunnels.map((tunnel) => (tunnel.dispatcher instanceof StreamDispatcher
+      ? tunnel.dispatcher.drain(drainTimeout * 1000)
+      : true)));
+    if (results.includes(false)) {
+      const left = pending();
+      say(chalk.yellow(`  Gave up on ${left} request${left === 1 ? '' : 's'} after ${drainTimeout}s`));
+    }
+  }
+
+  // Drains, then exits once the wrapped command, if any, has stopped
+  function exit(code: number): void {
+    if (exiting) process.exit(code); // asked twice: stop waiting
+    exiting = true;
+    shuttingDown = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    const done = () => {
+      shutdown();
+      events.write({ type: 'exit', code });
+      events.close();
+      process.exit(code);
+    };
+    if (pending() === 0 && !command?.running) {
+      done();
+      return;
+    }
+    drain()
+      .then(() => {
+        shutdown();
+        return command?.stop();
+      })
+      .then(done);
+  }
+
+  // Fatal errors go to stderr (or stdout as an event with --output json), even with --quiet
+  function fail(message: string, code: number = EXIT_CODES.error, detail: { tunnel?: string; hint?: string | null; reason?: string } = {}): void {
+    events.write({ type: 'error', tunnel: detail.tunnel, message, code: detail.reason, hint: detail.hint ?? undefined, fatal: true });
+    if (!json) {
+      console.error(chalk.red(`  ✗ ${message}`));
+      if (detail.hint) console.error(chalk.gray(`    ${detail.hint}`));
+    }
+    exit(code);
+  }
+
+  function logExchange(tunnel: ActiveTunnel, exchange: Exchange): void {
+    const { request } = exchange;
+
+    // Store for replay (keep last 10)
+    recentRequests.push({ request, tunnel });
+    if (recentRequests.length > 10) recentRequests.shift();
+    inspector?.add(exchange, undefined, multi ? tunnel.spec.name : undefined);
+    recorder?.add(exchange);
+    tunnel.stats.add(exchange);
+    events.write(requestEvent(tunnel.spec.name, exchange));
+
+    const statusStr = exchange.status ? statusColor(chalk, exchange.status) : chalk.gray('---');
+    const methodStr = methodColor(chalk, request.method);
+    const pathStr = chalk.white(request.path);
+    const upstreamStr = tunnel.router.routed && exchange.upstream ? chalk.gray(`  → ${exchange.upstream}`) : '';
+    const durationStr = chalk.gray(`${exchange.duration}ms`);
+    const sizeStr = chalk.gray(formatBytes(exchange.bytesOut));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const queuedStr = exchange.queued ? chalk.yellow(`  queued ${exchange.queued}ms`) : '';
+    const attemptsStr = exchange.attempts ? chalk.yellow(`  ${exchange.attempts} tries`) : '';
+    const errorStr = exchange.error ? `  ${chalk.red(exchange.error)}` : '';
+    const { verification } = exchange;
+    const fixtureStr = !exchange.fixture ? ''
+      : tunnel.mock?.options.mode === 'record' ? chalk.gray(`  saved ${exchange.fixture}`)
+        : chalk.cyan(`  ↺ ${exchange.fixture}`);
+    const eventStr = verification?.event ? ` ${verification.event}` : '';
+    const verifiedStr = !verification ? ''
+      : verification.valid ? chalk.green(`  ✓ ${providerName(verification.provider)}${eventStr}`)
+        : chalk.red(`  ✗ ${providerName(verification.provider)}${eventStr}: ${verification.reason}`);
+    say(`  ${tsStr} ${nameCol(tunnel)}${statusStr}  ${methodStr}  ${pathStr}${upstreamStr}${fixtureStr}${verifiedStr}  ${durationStr}  ${sizeStr}${queuedStr}${attemptsStr}${errorStr}`);
+    if (draining) {
+      const left = pending();
+      if (left > 0) say(chalk.gray(`  ${left} still in flight…`));
+      events.write({ type: 'draining', pending: left });
+    }
+  }
+
+  function logRejection(tunnel: ActiveTunnel, rejection: Rejection): void {
+    tunnel.stats.reject();
+    events.write(rejectedEvent(tunnel.spec.name, rejection));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const methodStr = rejection.upgrade ? chalk.magenta('WS'.padEnd(6)) : methodColor(chalk, rejection.method);
+    const fromStr = chalk.gray(`from ${rejection.remoteAddress || 'unknown'}`);
+    const badge = rejection.cause === 'rate-limit' ? chalk.bgYellow.black(' THROTTLED ')
+      : rejection.cause === 'overflow' ? chalk.bgRed.white(' REJECTED ')
+        : rejection.cause === 'draining' ? chalk.bgGray.white(' CLOSING ')
+          : rejection.cause === 'signature' ? chalk.bgRed.white(' UNVERIFIED ')
+            : rejection.cause === 'too-large' ? chalk.bgRed.white(' TOO LARGE ')
+              : chalk.bgRed.white(' DENIED ');
+    say(`  ${tsStr} ${nameCol(tunnel)}${statusColor(chalk, rejection.status)}  ${methodStr}  ${chalk.white(rejection.path)}  ${badge} ${chalk.red(rejection.reason)}  ${fromStr}`);
+  }
 
-  function connect(): void {
+  function logQueued(tunnel: ActiveTunnel, queued: QueuedRequest): void {
+    events.write(queuedEvent(tunnel.spec.name, queued));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const fromStr = chalk.gray(`from ${queued.remoteAddress || 'unknown'}`);
+    say(`  ${tsStr} ${nameCol(tunnel)}${chalk.gray('---')}  ${methodColor(chalk, queued.method)}  ${chalk.white(queued.path)}  ${chalk.bgYellow.black(' QUEUED ')} ${chalk.yellow(`#${queued.position} in line`)}  ${fromStr}`);
+  }
+
+  function logSocketOpen(tunnel: ActiveTunnel, info: SocketInfo): void {
+    events.write(socketEvent(tunnel.spec.name, info, false));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const statusStr = statusColor(chalk, info.status);
+    const outcome = info.status === 101 ? chalk.magenta('websocket open') : chalk.red('upgrade rejected');
+    const upstreamStr = tunnel.router.routed && info.upstream ? chalk.gray(`  → ${info.upstream}`) : '';
+    say(`  ${tsStr} ${nameCol(tunnel)}${statusStr}  ${chalk.magenta('WS'.padEnd(6))}  ${chalk.white(info.path)}${upstreamStr}  ${chalk.gray(`${info.duration}ms`)}  ${outcome}`);
+  }
+
+  function logSocketClose(tunnel: ActiveTunnel, info: SocketInfo): void {
+    events.write(socketEvent(tunnel.spec.name, info, true));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const codeStr = info.code !== undefined ? ` ${info.code}` : '';
+    const traffic = `${info.messagesIn} in / ${info.messagesOut} out  ${formatBytes(info.bytesIn + info.bytesOut)}`;
+    say(`  ${tsStr} ${nameCol(tunnel)}${chalk.gray('---')}  ${chalk.magenta('WS'.padEnd(6))}  ${chalk.white(info.path)}  ${chalk.gray(`${(info.duration / 1000).toFixed(1)}s`)}  ${chalk.gray(traffic)}  ${chalk.magenta(`websocket closed${codeStr}`)}`);
+  }
+
+  function logConnectionOpen(tunnel: ActiveTunnel, info: ConnectionInfo): void {
+    events.write(connectionEvent(tunnel.spec.name, info, false));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    say(`  ${tsStr} ${nameCol(tunnel)}${chalk.green('OPEN  ')}  ${chalk.white(info.remoteAddress)}`);
+  }
+
+  function logConnectionClose(tunnel: ActiveTunnel, info: ConnectionInfo): void {
+    events.write(connectionEvent(tunnel.spec.name, info, true));
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    const eventStr = info.error ? chalk.red('ERROR ') : chalk.gray('CLOSE ');
+    const durationStr = chalk.gray(`${(info.duration / 1000).toFixed(1)}s`);
+    const inStr = chalk.gray(`in ${formatBytes(info.bytesIn)}`);
+    const outStr = chalk.gray(`out ${formatBytes(info.bytesOut)}`);
+    const errorStr = info.error ? `  ${chalk.red(info.error)}` : '';
+    say(`  ${tsStr} ${nameCol(tunnel)}${eventStr}  ${chalk.white(info.remoteAddress)}  ${durationStr}  ${inStr}  ${outStr}${errorStr}`);
+  }
+
+  function formatCounts(counts: TrafficCounts): string {
+    const { requests, latency, status, errors, timeouts } = counts;
+    const classes = Object.entries(status).filter(([, n]) => n > 0).map(([cls, n]) => `${cls} ${n}`);
+    const failures = errors || timeouts
+      ? chalk.red(`${errors} error${errors === 1 ? '' : 's'}  ${timeouts} timeout${timeouts === 1 ? '' : 's'}`)
+      : chalk.gray('no errors');
+    return [
+      chalk.white(`${requests} request${requests === 1 ? '' : 's'}`),
+      chalk.gray(`p50 ${latency.p50}ms  p95 ${latency.p95}ms  p99 ${latency.p99}ms`),
+      ...(classes.length ? [chalk.gray(classes.join('  '))] : []),
+      chalk.gray(`in ${formatBytes(counts.bytesIn)}  out ${formatBytes(counts.bytesOut)}`),
+      failures,
+    ].join('   ');
+  }
+
+  // The `s` shortcut: totals since start, then one line per route
+  function printStats(): void {
+    for (const tunnel of httpTunnels) {
+      const stats = tunnel.stats.snapshot();
+      const since = new Date(stats.since).toLocaleTimeString('en-US', { hour12: false });
+      const rejectedStr = stats.rejected ? chalk.yellow(`   ${stats.rejected} rejected`) : '';
+      say(`  ${chalk.cyan('[stats]')} ${nameCol(tunnel)}${formatCounts(stats)}${rejectedStr}  ${chalk.gray(`since ${since}`)}`);
+      if (!tunnel.router.routed) continue;
+      const width = Math.max(...Object.keys(stats.routes).map((route) => route.length));
+      for (const [route, counts] of Object.entries(stats.routes)) {
+        say(`          ${nameCol(tunnel)}${chalk.white(route.padEnd(width))}  ${formatCounts(counts)}`);
+      }
+    }
+  }
+
+  async function printBanner(): Promise<void> {
+    if (!pretty) return;
+    // With a wrapped command, clearing would wipe its output
+    if (!command) console.clear();
+    if (opts.qr) {
+      for (const tunnel of tunnels) {
+        if (!tunnel.url) continue;
+        try {
+          const qr = await QRCode.toString(tunnel.url, { type: 'terminal', small: true, margin: 1 });
+          if (multi) say(chalk.bold(`  ${tunnel.spec.name}`));
+          say(qr);
+        } catch { /* ignore */ }
+      }
+    }
+    say(chalk.green(`  ✔ Connected`));
+    for (const tunnel of tunnels) {
+      const { spec } = tunnel;
+      const urlStr = tunnel.url ? chalk.bold.yellow(tunnel.url) : chalk.gray('connecting…');
+      const { rules } = tunnel.router;
+      const localStr = describeLocal(tunnel);
+      const insecureStr = tunnel.tls?.insecure ? chalk.gray(' (certificate checks off)') : '';
+      say(`  ${chalk.gray('Forwarding')}  ${nameCol(tunnel)}${chalk.white(localStr)}${insecureStr}  →  ${urlStr}`);
+      for (const rule of rules) {
+        const match = formatRule(rule);
+        const strip = rule.stripPrefix ? chalk.gray(' (strip prefix)') : '';
+        say(`  ${chalk.gray('  Route')}     ${nameCol(tunnel)}${chalk.white(match)}  →  ${chalk.white(formatUpstream(rule.upstream))}${strip}`);
+      }
+    }
+    if (inspector) {
+      say(`  ${chalk.gray('Inspector')}   ${chalk.white(inspector.url)}`);
+    }
+    if (metrics) {
+      say(`  ${chalk.gray('Metrics')}     ${chalk.white(metrics.url)}`);
+    }
+    if (recorder) {
+      say(`  ${chalk.gray('Recording')}   ${chalk.white(recorder.file)}`);
+    }
+    if (command) {
+      const envStr = opts.envFile ? chalk.gray(`  (URL in TUNNRL_URL and ${opts.envFile})`) : chalk.gray('  (URL in TUNNRL_URL)');
+      say(`  ${chalk.gray('Running')}     ${chalk.white(command.argv.join(' '))}${envStr}`);
+    } else if (opts.envFile) {
+      say(`  ${chalk.gray('Env file')}    ${chalk.white(opts.envFile)}`);
+    }
+    for (const tunnel of httpTunnels) {
+      if (!tunnel.access.enabled) continue;
+      const { spec } = tunnel;
+      const rules = [
+        spec.auth && 'basic auth',
+        spec.token && 'bearer token',
+        spec.allowIp?.length && `IP allowlist (${spec.allowIp.join(', ')})`,
+      ].filter(Boolean);
+      say(`  ${chalk.gray('Protected')}   ${nameCol(tunnel)}${chalk.white(rules.join(' + '))}`);
+    }
+    for (const tunnel of httpTunnels) {
+      const { rewrite } = tunnel.spec;
+      const changes = [
+        rewrite?.preserveHost && 'preserve host',
+        rewrite?.cors && 'CORS',
+        rewrite?.requestHeaders?.length && `${rewrite.requestHeaders.length} request header rule(s)`,
+        rewrite?.responseHeaders?.length && `${rewrite.responseHeaders.length} response header rule(s)`,
+      ].filter(Boolean);
+      if (changes.length === 0) continue;
+      say(`  ${chalk.gray('Rewriting')}   ${nameCol(tunnel)}${chalk.white(changes.join(' + '))}`);
+    }
+    for (const tunnel of httpTunnels) {
+      const { concurrency, rateLimiter } = tunnel;
+      const limits = [
+        concurrency && (concurrency.overflow === 'reject'
+          ? `${concurrency.max} at a time, 503 beyond`
+          : `${concurrency.max} at a time, queue of ${concurrency.queueSize}`),
+        rateLimiter && `${formatRateLimit(rateLimiter.limit)} per IP`,
+      ].filter(Boolean);
+      if (limits.length === 0) continue;
+      say(`  ${chalk.gray('Limits')}      ${nameCol(tunnel)}${chalk.white(limits.join(' + '))}`);
+    }
+    for (const tunnel of httpTunnels) {
+      const resilience = tunnel.spec.resilience && describeResilience(tunnel.spec.resilience);
+      if (resilience) say(`  ${chalk.gray('Upstream')}    ${nameCol(tunnel)}${chalk.white(resilience)}`);
+    }
+    for (const tunnel of httpTunnels) {
+      const { verifier } = tunnel;
+      if (!verifier) continue;
+      const modeStr = verifier.reject ? chalk.gray('  (401 for bad signatures)') : '';
+      say(`  ${chalk.gray('Verifying')}   ${nameCol(tunnel)}${chalk.white(`${verifier.describe()} signatures`)}${modeStr}`);
+    }
+    for (const tunnel of httpTunnels) {
+      const { mock } = tunnel;
+      if (!mock) continue;
+      const dir = path.relative(process.cwd(), mock.options.dir) || '.';
+      const fixtureStr = mock.options.mode === 'record'
+        ? chalk.white(`recording into ${dir}`)
+        : `${chalk.white(`answering from ${dir}`)}${chalk.gray(`  (${mock.size} fixture${mock.size === 1 ? '' : 's'}; unmatched requests ${mock.options.fallback === 'live' ? 'go live' : 'get 404'})`)}`;
+      say(`  ${chalk.gray('Fixtures')}    ${nameCol(tunnel)}${fixtureStr}`);
+    }
+    if (tcpOnly) {
+      say(`  ${chalk.gray('Shortcuts')}   ${chalk.white('q')} quit   ${chalk.white('c')} copy address`);
+    } else {
+      const inspectKey = inspector ? `   ${chalk.white('i')} open inspector` : '';
+      say(`  ${chalk.gray('Shortcuts')}   ${chalk.white('q')} quit   ${chalk.white('r')} replay last request   ${chalk.white('c')} copy URL   ${chalk.white('o')} open browser${inspectKey}   ${chalk.white('s')} stats`);
+    }
+    say('');
+    say(chalk.gray('─'.repeat(62)));
+    say('');
+    const tunnelHead = multi ? `${chalk.cyan('TUNNEL'.padEnd(nameWidth))}  ` : '';
+    if (tcpOnly) {
+      say(chalk.bold(`  ${tunnelHead}${chalk.cyan('EVENT')}    ${chalk.cyan('REMOTE')}   ${chalk.cyan('DURATION')}   ${chalk.cyan('IN')}   ${chalk.cyan('OUT')}`));
+    } else {
+      say(chalk.bold(`  ${tunnelHead}${chalk.cyan('STATUS')}   ${chalk.cyan('METHOD')}   ${chalk.cyan('PATH')}   ${chalk.cyan('DURATION')}   ${chalk.cyan('SIZE')}`));
+    }
+    say(chalk.gray('─'.repeat(62)));
+  }
+
+  function registrationHeaders(tunnel: ActiveTunnel): Record<string, string> {
+    const { spec } = tunnel;
+    const headers: Record<string, string> = spec.tcp
+      ? { [TUNNEL_TYPE_HEADER]: 'tcp', [FEATURES_HEADER]: TCP_CLIENT_FEATURES.join(',') }
+      : { [FEATURES_HEADER]: CLIENT_FEATURES.join(',') };
+    const subdomain = spec.subdomain ?? tunnel.claimed;
+    if (subdomain) headers[SUBDOMAIN_HEADER] = subdomain;
+    headers[SESSION_HEADER] = tunnel.session;
+    if (authtoken) headers['authorization'] = `Bearer ${authtoken}`;
+    return headers;
+  }
+
+  function refused(tunnel: ActiveTunnel, message: string, code: RegisterErrorCode | undefined): void {
+    fail(`${multi ? `${tunnel.spec.name}: ` : ''}Server error: ${message}`, exitCodeFor(code), {
+      tunnel: tunnel.spec.name,
+      hint: registerHint(code, authtoken),
+      reason: code,
+    });
+  }
+
+  // Register and let go straight away, to learn the URL before the local service is up
+  function reserve(tunnel: ActiveTunnel): Promise<void> {
+    return new Promise((resolve) => {
+      const socket = new WebSocket(serverUrl, { headers: registrationHeaders(tunnel) });
+      socket.on('message', (data: Buffer, isBinary: boolean) => {
+        let msg: ServerFrame;
+        try {
+          msg = decodeFrame<ServerFrame>(data, isBinary);
+        } catch {
+          return;
+        }
+        if (msg.type === 'registered') {
+          tunnel.url = msg.url;
+          tunnel.claimed = msg.subdomain;
+          socket.close();
+        } else if (msg.type === 'error') {
+          refused(tunnel, msg.message, msg.code);
+        }
+      });
+      socket.on('error', (err: Error) => {
+        warn(`${multi ? `${tunnel.spec.name}: ` : ''}Cannot reach the relay yet (${err.message}); starting without TUNNRL_URL`, tunnel);
+      });
+      socket.on('close', () => resolve());
+    });
+  }
+
+  function connect(tunnel: ActiveTunnel): void {
     if (shuttingDown) return;
 
-    ws = new WebSocket('wss://tunnrl.dev/register');
+    const { spec } = tunnel;
+    const label = multi ? `${spec.name}: ` : '';
+    const socket = new WebSocket(serverUrl, { headers: registrationHeaders(tunnel) });
+    tunnel.ws = socket;
+    tunnel.dispatcher = null;
 
-    ws.on('open', () => {
+    socket.on('open', () => {
       reconnectDelay = 1000;
       reconnectAttempts = 0;
-      console.log(chalk.green(`  ✔ Connected to tunnel server`));
+      say(chalk.green(`  ✔ ${label}Connected to tunnel server`));
     });
 
-    ws.on('message', async (data: Buffer) => {
-      let msg: ServerMessage | ForwardedRequest;
+    socket.on('message', async (data: Buffer, isBinary: boolean) => {
+      let msg: ServerFrame;
       try {
-        msg = JSON.parse(data.toString());
+        msg = decodeFrame<ServerFrame>(data, isBinary);
       } catch {
         return;
       }
 
+      if (tunnel.dispatcher?.handle(msg)) return;
+
       if (msg.type === 'error') {
-        console.log('');
-        console.log(chalk.red(`  ✗ Server error: ${msg.message}`));
-        shuttingDown = true;
-        ws?.close();
-        process.exit(1);
+        say('');
+        if (msg.code === 'subdomain-taken' && !spec.subdomain && tunnel.claimed) {
+          // Someone else got our old random name while we were away; the close handler reconnects
+          warn(`${label}${tunnel.claimed} was taken while disconnected — the URL will change`, tunnel);
+          tunnel.claimed = null;
+          return;
+        }
+        refused(tunnel, msg.message, msg.code);
         return;
       }
 
       if (msg.type === 'registered') {
-        tunnelUrl = msg.url;
-        console.clear();
-        if (opts.qr) {
-          try {
-            const qr = await QRCode.toString(msg.url, { type: 'terminal', small: true, margin: 1 });
-            console.log(qr);
-          } catch { /* ignore */ }
+        const features = msg.features ?? [];
+        if (spec.tcp) {
+          if (!features.includes('tcp')) {
+            say('');
+            fail(`${label}This relay does not support TCP tunnels`, EXIT_CODES.unsupported, { tunnel: spec.name });
+            return;
+          }
+          const tcp = new TcpDispatcher(socket, spec.host, spec.port!, negotiatedFraming(features));
+          tcp.on('connection-open', (info: ConnectionInfo) => logConnectionOpen(tunnel, info));
+          tcp.on('connection-close', (info: ConnectionInfo) => logConnectionClose(tunnel, info));
+          tunnel.dispatcher = tcp;
+        } else {
+          const http = new StreamDispatcher(socket, {
+            router: tunnel.router,
+            streaming: features.includes('stream'),
+            framing: negotiatedFraming(features),
+            access: tunnel.access,
+            rewriter: tunnel.rewriter,
+            tls: tunnel.tls,
+            resilience: tunnel.spec.resilience,
+            concurrency: tunnel.concurrency,
+            rateLimiter: tunnel.rateLimiter,
+            verifier: tunnel.verifier,
+            mock: tunnel.mock,
+          });
+          http.on('exchange', (exchange: Exchange) => logExchange(tunnel, exchange));
+          http.on('rejected', (rejection: Rejection) => logRejection(tunnel, rejection));
+          http.on('queued', (queued: QueuedRequest) => logQueued(tunnel, queued));
+          http.on('socket-open', (info: SocketInfo) => logSocketOpen(tunnel, info));
+          http.on('socket-close', (info: SocketInfo) => logSocketClose(tunnel, info));
+          tunnel.dispatcher = http;
         }
-        console.log(chalk.green(`  ✔ Connected`));
-        console.log(`  ${chalk.gray('Forwarding')}  ${chalk.white(`localhost:${port}`)}  →  ${chalk.bold.yellow(msg.url)}`);
-        console.log(`  ${chalk.gray('Shortcuts')}   ${chalk.white('q')} quit   ${chalk.white('r')} replay last request   ${chalk.white('c')} copy URL   ${chalk.white('o')} open browser`);
-        console.log('');
-        console.log(chalk.gray('─'.repeat(62)));
-        console.log('');
-        console.log(chalk.bold(`  ${chalk.cyan('STATUS')}   ${chalk.cyan('METHOD')}   ${chalk.cyan('PATH')}   ${chalk.cyan('DURATION')}   ${chalk.cyan('SIZE')}`));
-        console.log(chalk.gray('─'.repeat(62)));
-        return;
-      }
 
-      if (msg.type === 'request') {
-        const request = msg as ForwardedRequest;
-        const startMs = Date.now();
-
-        const response = await forwardToLocal(opts.host, port, request);
-        const durationMs = Date.now() - startMs;
-
-        // Store for replay (keep last 10)
-        recentRequests.push(request);
-        if (recentRequests.length > 10) recentRequests.shift();
-
-        // Log the request with size
-        const sizeBytes = Buffer.from(response.body, 'base64').length;
-        const statusStr = statusColor(chalk, response.status);
-        const methodStr = methodColor(chalk, request.method);
-        const pathStr = chalk.white(request.path);
-        const durationStr = chalk.gray(`${durationMs}ms`);
-        const sizeStr = chalk.gray(formatBytes(sizeBytes));
-        const tsStr = chalk.gray(`[${timestamp()}]`);
-        console.log(`  ${tsStr} ${statusStr}  ${methodStr}  ${pathStr}  ${durationStr}  ${sizeStr}`);
-
-        // Send response back through the tunnel
-        if (ws && ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(response));
+        const previousUrl = tunnel.url;
+        const reconnected = tunnel.connected;
+        tunnel.url = msg.url;
+        tunnel.claimed = msg.subdomain;
+        tunnel.connected = true;
+        const local = describeLocal(tunnel);
+        events.write(reconnected
+          ? { type: 'reconnected', tunnel: spec.name, url: msg.url, local, previousUrl: previousUrl !== msg.url ? previousUrl : undefined }
+          : { type: 'connected', tunnel: spec.name, url: msg.url, local });
+        if (opts.quiet && !json && (!reconnected || msg.url !== previousUrl)) console.log(msg.url);
+        if (previousUrl && msg.url !== previousUrl && command) {
+          warn(`${label}The URL changed to ${msg.url}; ${command.name} still has ${previousUrl} in TUNNRL_URL`, tunnel);
         }
+        publishUrls();
+        await printBanner();
+        return;
       }
     });
 
-    ws.on('close', (code: number, reason: Buffer) => {
+    socket.on('close', (code: number, reason: Buffer) => {
+      tunnel.dispatcher?.abortAll();
+      if (tunnel.ws === socket) tunnel.ws = null;
       if (shuttingDown) return;
       const reasonStr = reason.length ? ` (${reason.toString()})` : '';
-      console.log('');
-      console.log(chalk.yellow(`  ⚠ Disconnected${reasonStr} — reconnecting in ${reconnectDelay / 1000}s…`));
+      const whenStr = reconnectTimer ? '' : ` in ${reconnectDelay / 1000}s`;
+      say('');
+      say(chalk.yellow(`  ⚠ ${label}Disconnected${reasonStr} — reconnecting${whenStr}…`));
+      events.write({ type: 'disconnected', tunnel: spec.name, code, reason: reason.toString() });
       scheduleReconnect();
     });
 
-    ws.on('error', (err: Error) => {
+    socket.on('error', (err: Error) => {
       if (shuttingDown) return;
-      console.log('');
-      console.log(chalk.red(`  ✗ WebSocket error: ${err.message}`));
+      say('');
+      say(chalk.red(`  ✗ ${label}WebSocket error: ${err.message}`));
+      events.write({ type: 'error', tunnel: spec.name, message: `WebSocket error: ${err.message}`, fatal: false });
     });
 
-    ws.on('ping', () => {
-      if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.pong();
+    socket.on('ping', () => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.pong();
       }
     });
   }
 
   function scheduleReconnect(): void {
+    if (reconnectTimer) return; // already scheduled for another tunnel
     reconnectAttempts++;
     const jitter = Math.random() * 500;
     const delay = Math.min(reconnectDelay + jitter, 30_000);
     reconnectDelay = Math.min(reconnectDelay * 2, 30_000);
+    events.write({ type: 'reconnecting', attempt: reconnectAttempts, delay: Math.round(delay) });
 
-    setTimeout(() => {
-      if (!shuttingDown) {
-        console.log(chalk.gray(`  Reconnect attempt #${reconnectAttempts}…`));
-        connect();
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (shuttingDown) return;
+      say(chalk.gray(`  Reconnect attempt #${reconnectAttempts}…`));
+      for (const tunnel of tunnels) {
+        if (!tunnel.ws) connect(tunnel);
       }
     }, delay);
   }
 
-  // ── Startup ──────────────────────────────────────────────────────────────
-  connect();
+  function shutdown(): void {
+    shuttingDown = true;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    for (const tunnel of tunnels) tunnel.ws?.close();
+    metrics?.close();
+  }
+
+  // TUNNRL_URL for the first HTTP tunnel, and TUNNRL_URL_<NAME> for each one when there are several
+  function urlEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    const primary = httpTunnels.find((t) => t.url) ?? tunnels.find((t) => t.url);
+    if (primary) env.TUNNRL_URL = primary.url;
+    if (multi) {
+      for (const tunnel of tunnels) {
+        if (tunnel.url) env[urlVariable(tunnel.spec.name)] = tunnel.url;
+      }
+    }
+    return env;
+  }
+
+  // Update --url-file and --env-file, when the URLs have changed since last time
+  let published = '';
+  function publishUrls(): void {
+    const urls = tunnels.filter((t) => t.url).map((t) => t.url);
+    if (urls.length === 0 || urls.join('\n') === published) return;
+    published = urls.join('\n');
+    if (opts.urlFile) {
+      try {
+        writeUrlFile(opts.urlFile, urls);
+      } catch (err) {
+        warn(`Cannot write ${opts.urlFile}: ${(err as Error).message}`);
+      }
+    }
+    if (opts.envFile) {
+      try {
+        updateEnvFile(opts.envFile, urlEnv());
+      } catch (err) {
+        warn(`Cannot write ${opts.envFile}: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Start the command after `--` and wait until it listens. HTTP tunnels
+   * register once beforehand so their URLs can go into its environment, and
+   * get the same subdomain back when they register for real.
+   */
+  async function runCommand(command: WrappedCommand): Promise<void> {
+    await Promise.all(httpTunnels.map(reserve));
+    publishUrls();
+
+    command.on('line', (stream: OutputStream, line: string) => {
+      events.write({ type: 'output', stream, line });
+      if (pretty) console.log(`  ${chalk.gray(`[${command.name}]`)} ${line}`);
+      else if (!json) (stream === 'stdout' ? process.stdout : process.stderr).write(`${line}\n`);
+    });
+    command.on('error', (err: Error) => {
+      fail(`Cannot run ${command.name}: ${err.message}`);
+    });
+    command.on('exit', (code: number | null, signal: string | null) => {
+      if (exiting) return;
+      events.write({ type: 'command-exit', code, signal });
+      say('');
+      say(chalk.gray(`  ${command.name} ${signal ? `was stopped by ${signal}` : `exited with code ${code}`} — closing tunnel`));
+      exit(code ?? EXIT_CODES.error);
+    });
+
+    const env = urlEnv();
+    // Output goes through a pipe; keep the colours it would have had in the terminal
+    if (pretty && process.stdout.isTTY && process.env.FORCE_COLOR === undefined) env.FORCE_COLOR = '1';
+    command.start(env);
+    events.write({ type: 'command-start', command: command.argv.join(' '), pid: command.pid });
+    say(chalk.gray(`  Started ${command.argv.join(' ')}`));
+
+    for (const tunnel of tunnels) {
+      const upstream = tunnel.router.fallback;
+      if (!upstream || upstream.connect) continue;
+      const local = formatUpstream(upstream);
+      say(chalk.gray(`  Waiting for ${local} to accept connections…`));
+      events.write({ type: 'waiting', tunnel: tunnel.spec.name, local });
+      await waitForPort(connectHost(upstream), upstream.port, () => {
+        const elapsed = PORT_SLOW_AFTER / 1000;
+        say(chalk.yellow(`  Still waiting for ${local} after ${elapsed}s. Is the command listening on that host and port?`));
+        events.write({ type: 'waiting', tunnel: tunnel.spec.name, local, elapsed });
+      });
+    }
+  }
 
   // Graceful shutdown
   process.on('SIGINT', async () => {
-    shuttingDown = true;
-    console.log('');
-    console.log(chalk.gray('  Closing tunnel… bye!'));
-    ws?.close();
-    process.exit(0);
+    say('');
+    say(chalk.gray('  Closing tunnel… bye!'));
+    exit(EXIT_CODES.ok);
   });
 
   process.on('SIGTERM', () => {
-    shuttingDown = true;
-    ws?.close();
-    process.exit(0);
+    exit(EXIT_CODES.ok);
   });
 
   // ── Keyboard shortcuts ────────────────────────────────────────────────────
-  if (process.stdin.isTTY) {
+  // Not when scripted: the table they act on is not shown, and stdin may be in use
+  if (process.stdin.isTTY && pretty) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding('utf8');
     process.stdin.on('data', async (key: string) => {
+      const urls = tunnels.filter((t) => t.url);
       if (key === '\u0003' || key === 'q' || key === 'Q') { // Ctrl+C or q
-        shuttingDown = true;
-        console.log('');
-        console.log(chalk.gray('  Closing tunnel… bye!'));
-        ws?.close();
-        process.exit(0);
+        say('');
+        say(chalk.gray('  Closing tunnel… bye!'));
+        exit(EXIT_CODES.ok);
       }
-      if (key === 'o' || key === 'O') {
-        if (!tunnelUrl) {
-          console.log(chalk.gray('  Not connected yet'));
+      if ((key === 'o' || key === 'O') && !tcpOnly) {
+        const targets = urls.filter((t) => !t.spec.tcp);
+        if (targets.length === 0) {
+          say(chalk.gray('  Not connected yet'));
           return;
         }
-        openInBrowser(tunnelUrl);
-        console.log(chalk.gray(`  Opening ${tunnelUrl} in browser…`));
+        for (const { url } of targets) {
+          openInBrowser(url);
+          say(chalk.gray(`  Opening ${url} in browser…`));
+        }
       }
       if (key === 'c' || key === 'C') {
-        if (!tunnelUrl) {
-          console.log(chalk.gray('  Not connected yet'));
+        if (urls.length === 0) {
+          say(chalk.gray('  Not connected yet'));
           return;
         }
-        const ok = await copyToClipboard(tunnelUrl);
-        console.log(ok ? chalk.gray('  Copied to clipboard') : chalk.gray('  Could not copy to clipboard'));
+        const ok = await copyToClipboard(urls.map((t) => t.url).join('\n'));
+        say(ok ? chalk.gray('  Copied to clipboard') : chalk.gray('  Could not copy to clipboard'));
       }
-      if (key === 'r' || key === 'R') {
+      if ((key === 'r' || key === 'R') && !tcpOnly) {
         if (recentRequests.length === 0) {
-          console.log(chalk.gray('  No requests to replay yet'));
+          say(chalk.gray('  No requests to replay yet'));
           return;
         }
-        const last = recentRequests[recentRequests.length - 1];
+        const { request: last, tunnel } = recentRequests[recentRequests.length - 1];
         const replayReq: ForwardedRequest = { ...last, requestId: uuidv4() };
-        console.log(chalk.cyan(`  ↺ Replaying ${last.method} ${last.path}…`));
-        const startMs = Date.now();
-        const response = await forwardToLocal(opts.host, port, replayReq);
-        const durationMs = Date.now() - startMs;
-        const sizeBytes = Buffer.from(response.body, 'base64').length;
-        const statusStr = statusColor(chalk, response.status);
+        say(chalk.cyan(`  ↺ Replaying ${last.method} ${last.path}…`));
+        const replayed = await replayToLocal(tunnel.router, replayReq, { rewriter: tunnel.rewriter, tls: tunnel.tls, resilience: tunnel.spec.resilience });
+        inspector?.add(replayed, last.requestId, multi ? tunnel.spec.name : undefined);
+        const statusStr = statusColor(chalk, replayed.status);
         const methodStr = methodColor(chalk, replayReq.method);
-        console.log(`  ${chalk.cyan('[↺]')} ${statusStr}  ${methodStr}  ${chalk.white(replayReq.path)}  ${chalk.gray(`${durationMs}ms`)}  ${chalk.gray(formatBytes(sizeBytes))}`);
+        say(`  ${chalk.cyan('[↺]')} ${nameCol(tunnel)}${statusStr}  ${methodStr}  ${chalk.white(replayReq.path)}  ${chalk.gray(`${replayed.duration}ms`)}  ${chalk.gray(formatBytes(replayed.bytesOut))}`);
+      }
+      if ((key === 'i' || key === 'I') && inspector) {
+        openInBrowser(inspector.url);
+        say(chalk.gray(`  Opening ${inspector.url} in browser…`));
       }
+      if ((key === 's' || key === 'S') && !tcpOnly) printStats();
     });
   }
+
+  // ── Startup ──────────────────────────────────────────────────────────────
+  if (command) await runCommand(command);
+  for (const tunnel of tunnels) connect(tunnel);
+}
+
+/** `tunnrl <port>` and `tunnrl tcp <port>`: a session with a single tunnel */
+function startTunnel(port: number | undefined, opts: TunnelOptions): Promise<void> {
+  const {
+    host, subdomain, tcp, auth, token, allowIp, route, requestHeader, responseHeader, preserveHost, cors,
+    upstreamInsecure, upstreamCa, upstreamCert, upstreamKey, upstreamSni,
+    maxConcurrent, queueSize, overflow, rateLimit, timeout, retries, hold,
+    verify, verifyReject, mock, mockMode, mockFallback, mockMatchBody, dir, spa, listing, ...session
+  } = opts;
+  let routes: RouteRule[];
+  let rewrite: RewriteOptions;
+  let limits: LimitOptions;
+  let resilience: Resilience;
+  let verifyRules: VerifyOptions['rules'];
+  let mockOptions: MockOptions | undefined;
+  try {
+    limits = parseLimits({ maxConcurrent, queueSize, overflow, rateLimit });
+    resilience = parseResilience({ timeout, retries, hold });
+    verifyRules = (verify ?? []).map(parseVerifyRule);
+    mockOptions = mock ? parseMockOptions({ dir: mock, mode: mockMode, fallback: mockFallback, matchBody: mockMatchBody }) : undefined;
+    routes = (route ?? []).map((spec) => parseRoute(spec, host));
+    rewrite = {
+      requestHeaders: (requestHeader ?? []).map(parseHeaderRule),
+      responseHeaders: (responseHeader ?? []).map(parseHeaderRule),
+      preserveHost,
+      cors,
+    };
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  const spec: TunnelSpec = {
+    name: String(port ?? dir ?? 'routes'), port, host, subdomain, tcp, auth, token, allowIp, routes, rewrite, limits, resilience,
+    verify: { rules: verifyRules, reject: verifyReject },
+    mock: mockOptions,
+    static: dir ? { dir, spa, listing } : undefined,
+    tls: { insecure: upstreamInsecure, ca: upstreamCa, cert: upstreamCert, key: upstreamKey, servername: upstreamSni },
+  };
+  return startTunnels([spec], session);
+}
+
+// ─── Config file ──────────────────────────────────────────────────────────────
+
+interface StartCommandOptions {
+  config?: string;
+  server?: string;
+  authtoken?: string;
+  inspect: boolean;
+  inspectPort?: string;
+  record?: string;
+  output?: string;
+  quiet?: boolean;
+  logFile?: string;
+  urlFile?: string;
+  envFile?: string;
+  drainTimeout?: string;
+  metricsPort?: string;
+}
+
+function runStart(names: string[], opts: StartCommandOptions): Promise<void> {
+  const file = opts.config ?? findConfig();
+  if (!file) {
+    console.error(`Error: no config file found (looked for ${CONFIG_FILES.join(', ')})`);
+    process.exit(1);
+  }
+
+  let config: TunnrlConfig;
+  try {
+    config = loadConfig(file);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const unknown = names.filter((name) => !(name in config.tunnels));
+  if (unknown.length > 0) {
+    console.error(`Error: no tunnel named ${unknown.join(', ')} in ${file} (have: ${Object.keys(config.tunnels).join(', ')})`);
+    process.exit(1);
+  }
+
+  const selected = names.length > 0 ? names : Object.keys(config.tunnels);
+  const specs: TunnelSpec[] = selected.map((name) => {
+    const tunnel = config.tunnels[name];
+    const host = tunnel.host ?? 'localhost';
+    let routes: RouteRule[];
+    let rewrite: RewriteOptions;
+    let limits: LimitOptions;
+    let resilience: Resilience;
+    let verifyRules: VerifyOptions['rules'];
+    let mock: MockOptions | undefined;
+    try {
+      limits = parseLimits({
+        maxConcurrent: tunnel.max_concurrent,
+        queueSize: tunnel.queue_size,
+        overflow: tunnel.overflow,
+        rateLimit: tunnel.rate_limit,
+      });
+      resilience = parseResilience({ timeout: tunnel.timeout, retries: tunnel.retries, hold: tunnel.hold });
+      verifyRules = (tunnel.verify === undefined ? [] : ([] as string[]).concat(tunnel.verify)).map(parseVerifyRule);
+      mock = tunnel.mock
+        ? parseMockOptions({
+          dir: path.resolve(path.dirname(file), tunnel.mock),
+          mode: tunnel.mock_mode,
+          fallback: tunnel.mock_fallback === undefined ? undefined : String(tunnel.mock_fallback),
+          matchBody: tunnel.mock_match_body,
+        })
+        : undefined;
+      routes = (tunnel.routes ?? []).map((rule) => parseRoute(rule, host));
+      rewrite = {
+        requestHeaders: (tunnel.request_headers ?? []).map(parseHeaderRule),
+        responseHeaders: (tunnel.response_headers ?? []).map(parseHeaderRule),
+        preserveHost: tunnel.preserve_host,
+        cors: tunnel.cors,
+      };
+    } catch (err) {
+      console.error(`Error: ${file}: tunnels.${name}: ${(err as Error).message}`);
+      process.exit(1);
+    }
+    return {
+      name,
+      port: tunnel.port,
+      host,
+      static: tunnel.dir
+        ? { dir: path.resolve(path.dirname(file), tunnel.dir), spa: tunnel.spa, listing: tunnel.listing }
+        : undefined,
+      routes,
+      rewrite,
+      limits,
+      resilience,
+      verify: { rules: verifyRules, reject: tunnel.verify_reject },
+      mock,
+      tls: {
+        insecure: tunnel.upstream_insecure,
+        // Certificate paths in the file are relative to the file
+        ca: tunnel.upstream_ca && path.resolve(path.dirname(file), tunnel.upstream_ca),
+        cert: tunnel.upstream_cert && path.resolve(path.dirname(file), tunnel.upstream_cert),
+        key: tunnel.upstream_key && path.resolve(path.dirname(file), tunnel.upstream_key),
+        servername: tunnel.upstream_sni,
+      },
+      tcp: tunnel.tcp,
+      subdomain: tunnel.subdomain,
+      auth: tunnel.auth,
+      token: tunnel.token,
+      allowIp: tunnel.allow_ip === undefined ? undefined : ([] as string[]).concat(tunnel.allow_ip),
+    };
+  });
+
+  return startTunnels(specs, {
+    server: opts.server ?? config.server,
+    authtoken: opts.authtoken,
+    inspect: opts.inspect && config.inspect !== false,
+    inspectPort: opts.inspectPort ?? (config.inspect_port ? String(config.inspect_port) : undefined),
+    record: opts.record ?? config.record,
+    output: opts.output,
+    quiet: opts.quiet,
+    logFile: opts.logFile,
+    urlFile: opts.urlFile,
+    envFile: opts.envFile,
+    command: wrapped,
+    drainTimeout: opts.drainTimeout,
+    metricsPort: opts.metricsPort ?? (config.metrics_port ? String(config.metrics_port) : undefined),
+  });
+}
+
+// ─── Recordings ───────────────────────────────────────────────────────────────
+
+interface ReplayCommandOptions {
+  port?: string;
+  host: string;
+  upstreamInsecure?: boolean;
+  method?: string;
+  path?: string;
+}
+
+function loadRecording(file: string) {
+  try {
+    return readRecording(file);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+async function runReplay(file: string, port: number, opts: ReplayCommandOptions): Promise<void> {
+  const chalk = await getChalk();
+
+  const records = filterRecording(loadRecording(file), {
+    methods: opts.method?.split(',').map((m) => m.trim()).filter(Boolean),
+    path: opts.path,
+  });
+  if (records.length === 0) {
+    console.log(chalk.gray('  No recorded requests match'));
+    return;
+  }
+
+  let upstream: Upstream;
+  try {
+    upstream = localUpstream(opts.host, port);
+  } catch (err) {
+    console.error(`Error: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  const tls = { insecure: opts.upstreamInsecure };
+
+  console.log(`  ${chalk.gray('Replaying')}   ${chalk.white(`${records.length} request${records.length === 1 ? '' : 's'}`)}  →  ${chalk.white(formatUpstream(upstream))}`);
+  console.log('');
+
+  let changed = 0;
+  for (const record of records) {
+    const request = { ...record.request, requestId: uuidv4() };
+    const startMs = Date.now();
+    const response = await forwardToLocal(upstream, request, { tls });
+    const duration = Date.now() - startMs;
+    const size = Buffer.from(response.body, 'base64').length;
+
+    let note = '';
+    if (response.status !== record.response.status) {
+      changed++;
+      note = `  ${chalk.yellow(`was ${record.response.status}`)}`;
+    }
+    console.log(`  ${chalk.cyan('[↺]')} ${statusColor(chalk, response.status)}  ${methodColor(chalk, request.method)}  ${chalk.white(request.path)}  ${chalk.gray(`${duration}ms`)}  ${chalk.gray(formatBytes(size))}${note}`);
+  }
+
+  console.log('');
+  const summary = changed ? chalk.yellow(`${changed} changed status`) : chalk.green('all statuses match the recording');
+  console.log(`  ${chalk.gray(`Replayed ${records.length}`)}  ${summary}`);
+}
+
+function runExport(file: string, output?: string): void {
+  const har = JSON.stringify(toHar(loadRecording(file), program.version()), null, 2);
+  if (output) {
+    fs.writeFileSync(output, har);
+  } else {
+    process.stdout.write(`${har}\n`);
+  }
+}
+
+// ─── Login ───────────────────────────────────────────────────────────────────
+
+async function runLogin(token: string): Promise<void> {
+  const chalk = await getChalk();
+  if (!/^\S+$/.test(token)) {
+    console.error('Error: the auth token must not be empty or contain spaces');
+    process.exit(1);
+  }
+  let file: string;
+  try {
+    file = saveAuthtoken(token);
+  } catch (err) {
+    console.error(`Error: cannot save the auth token: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  console.log(chalk.green(`  ✔ Auth token saved to ${file}`));
+  if (process.env.TUNNRL_AUTHTOKEN) {
+    console.log(chalk.gray('    TUNNRL_AUTHTOKEN is set and takes precedence over the saved token'));
+  }
+}
+
+// ─── Relay server ─────────────────────────────────────────────────────────────
+
+interface ServerCommandOptions {
+  port?: string;
+  bind: string;
+  domain?: string;
+  secure?: boolean;
+  maxTunnels?: string;
+  tcp: boolean;
+  tcpPorts: string;
+  authtoken?: string[];
+  reserve?: string[];
+  binary: boolean;
+  compression: boolean;
+  requestTimeout: string;
+}
+
+function parsePortRange(raw: string): [number, number] {
+  const match = /^(\d+)-(\d+)$/.exec(raw.trim());
+  const min = match ? parseInt(match[1], 10) : NaN;
+  const max = match ? parseInt(match[2], 10) : NaN;
+  if (isNaN(min) || isNaN(max) || min < 1 || max > 65535 || min > max) {
+    console.error('Error: --tcp-ports must be a range like 20000-20999');
+    process.exit(1);
+  }
+  return [min, max];
+}
+
+/** `--reserve hooks=s3cret` → `{ hooks: 's3cret' }` */
+function parseReservations(entries: string[]): Record<string, string> {
+  const reserved: Record<string, string> = {};
+  for (const entry of entries) {
+    const at = entry.indexOf('=');
+    const name = entry.slice(0, at).trim().toLowerCase();
+    const token = entry.slice(at + 1).trim();
+    if (at === -1 || !isValidSubdomain(name) || !token) {
+      console.error(`Error: --reserve must look like <subdomain>=<token>, got "${entry}"`);
+      process.exit(1);
+    }
+    reserved[name] = token;
+  }
+  return reserved;
+}
+
+async function runServer(port: number, opts: ServerCommandOptions): Promise<void> {
+  const chalk = await getChalk();
+
+  const requestTimeout = Number(opts.requestTimeout);
+  if (!(requestTimeout > 0)) {
+    console.error('Error: --request-timeout must be a positive number of seconds');
+    process.exit(1);
+  }
+
+  const relay = await startServer({
+    port,
+    bind: opts.bind,
+    domain: opts.domain,
+    secure: opts.secure,
+    maxTunnels: opts.maxTunnels ? parseInt(opts.maxTunnels, 10) : undefined,
+    tcp: opts.tcp,
+    tcpPortRange: parsePortRange(opts.tcpPorts),
+    authTokens: opts.authtoken ?? collectList(process.env.TUNNRL_AUTHTOKENS ?? ''),
+    reserved: parseReservations(opts.reserve ?? []),
+    binary: opts.binary,
+    compression: opts.compression,
+    requestTimeout: Math.round(requestTimeout * 1000),
+  });
+
+  const scheme = relay.options.secure ? 'https' : 'http';
+  console.log(chalk.green(`  ✔ Relay listening on ${opts.bind}:${port}`));
+  console.log(`  ${chalk.gray('Register')}    ${chalk.white(`ws://localhost:${port}/register`)}`);
+  console.log(`  ${chalk.gray('Tunnels')}     ${chalk.white(`${scheme}://<subdomain>.${relay.options.domain}`)}`);
+  if (relay.options.tcp) {
+    const [min, max] = relay.options.tcpPortRange;
+    console.log(`  ${chalk.gray('TCP ports')}   ${chalk.white(`${min}-${max}`)}`);
+  }
+  if (relay.options.authTokens.length > 0) {
+    console.log(`  ${chalk.gray('Auth')}        ${chalk.white(`${relay.options.authTokens.length} auth token(s) required`)}`);
+  }
+  const reservedNames = Object.keys(relay.options.reserved);
+  if (reservedNames.length > 0) {
+    console.log(`  ${chalk.gray('Reserved')}    ${chalk.white(reservedNames.join(', '))}`);
+  }
+  if (!relay.options.binary || !relay.options.compression) {
+    const framing = relay.options.binary ? 'binary, uncompressed' : 'JSON only';
+    console.log(`  ${chalk.gray('Framing')}     ${chalk.white(framing)}`);
+  }
+  console.log('');
+  console.log(chalk.gray('─'.repeat(62)));
+
+  relay.on('tunnel-open', ({ subdomain, remoteAddress }) => {
+    console.log(`  ${chalk.gray(`[${timestamp()}]`)} ${chalk.green('+')} ${chalk.bold(subdomain)}  ${chalk.gray(`opened from ${remoteAddress}`)}`);
+  });
+
+  relay.on('tunnel-close', ({ subdomain }) => {
+    console.log(`  ${chalk.gray(`[${timestamp()}]`)} ${chalk.red('-')} ${chalk.bold(subdomain)}  ${chalk.gray('closed')}`);
+  });
+
+  relay.on('request', ({ subdomain, method, path, status, duration, size }) => {
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    console.log(`  ${tsStr} ${statusColor(chalk, status)}  ${methodColor(chalk, method)}  ${chalk.gray(subdomain)}  ${chalk.white(path)}  ${chalk.gray(`${duration}ms`)}  ${chalk.gray(formatBytes(size))}`);
+  });
+
+  relay.on('connection', ({ subdomain, remoteAddress, bytesIn, bytesOut, duration }) => {
+    const tsStr = chalk.gray(`[${timestamp()}]`);
+    console.log(`  ${tsStr} ${chalk.gray('TCP')}  ${chalk.gray(subdomain)}  ${chalk.white(remoteAddress)}  ${chalk.gray(`${(duration / 1000).toFixed(1)}s`)}  ${chalk.gray(`in ${formatBytes(bytesIn)}  out ${formatBytes(bytesOut)}`)}`);
+  });
+
+  relay.on('error', (err: Error) => {
+    console.log(chalk.red(`  ✗ ${err.message}`));
+  });
+
+  const shutdown = async () => {
+    console.log('');
+    console.log(chalk.gray('  Stopping relay… bye!'));
+    await relay.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
 }
 
 // ─── CLI ──────────────────────────────────────────────────────────────────────
 
+/** Repeatable option: `--route a --route b` */
+function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat(value);
+}
+
+/** Repeatable, comma-separated option: `--allow-ip 10.0.0.0/8 --allow-ip 1.2.3.4,5.6.7.8` */
+function collectList(value: string, previous: string[] = []): string[] {
+  return previous.concat(value.split(',').map((v) => v.trim()).filter(Boolean));
+}
+
+function parsePort(raw: string | undefined, usage: string): number {
+  if (!raw) {
+    console.error(`Error: port is required. Usage: ${usage}`);
+    process.exit(1);
+  }
+  const port = parseInt(raw, 10);
+  if (isNaN(port) || port < 1 || port > 65535) {
+    console.error('Error: port must be a number between 1 and 65535');
+    process.exit(1);
+  }
+  return port;
+}
+
 program
   .name('tunnrl')
   .description('Expose localhost to the internet')
   .version('1.0.0')
-  .argument('[port]', 'Local port to tunnel (or set PORT env var)')
-  .option('--host <host>', 'Local host to forward to', 'localhost')
+  .enablePositionalOptions()
+  .usage('[options] [port] [-- <command...>]')
+  .argument('[port]', 'Local port or URL to tunnel, e.g. 3000 or https://localhost:8443 (or set PORT env var)')
+  .option('--host <host>', 'Local host to forward to, e.g. https://localhost for an HTTPS service', 'localhost')
   .option('--qr', 'Show QR code on connect')
+  .option('--server <url>', 'Relay to register with (or set TUNNRL_SERVER)')
+  .option('--subdomain <name>', 'Ask the relay for a fixed subdomain')
+  .option('--authtoken <token>', 'Auth token for the relay (or set TUNNRL_AUTHTOKEN, or run tunnrl login)')
+  .option('--inspect-port <port>', 'Port for the local web inspector', '4040')
+  .option('--no-inspect', 'Disable the local web inspector')
+  .option('--record <file>', 'Append every request and response to a file')
+  .option('--auth <user:pass>', 'Require HTTP basic auth')
+  .option('--token <token>', 'Require Authorization: Bearer <token>')
+  .option('--allow-ip <cidr>', 'Only accept callers from these addresses (repeatable)', collectList)
+  .option('--route <rule>', "Send matching requests elsewhere, e.g. '/api/* -> 4000 strip' (repeatable)", collect)
+  .option('--request-header <rule>', "Change request headers, e.g. 'set X-Env: dev' or 'remove Cookie' (repeatable)", collect)
+  .option('--response-header <rule>', "Change response headers, e.g. 'add X-Robots-Tag: noindex' (repeatable)", collect)
+  .option('--preserve-host', 'Send the public Host header to the local service')
+  .option('--cors', 'Add permissive CORS headers and answer preflight requests')
+  .option('--upstream-insecure', 'Accept self-signed certificates from an https:// local service')
+  .option('--upstream-ca <file>', 'Trust this CA certificate (PEM) for an https:// local service')
+  .option('--upstream-cert <file>', 'Client certificate (PEM) for mutual TLS with the local service')
+  .option('--upstream-key <file>', 'Private key (PEM) for --upstream-cert')
+  .option('--upstream-sni <name>', 'Server name to send and verify instead of the local host')
+  .option('--dir <path>', 'Serve the files in a directory instead of a local port')
+  .option('--spa', 'With --dir, answer unknown paths with index.html (client-side routing)')
+  .option('--no-listing', 'With --dir, do not list directories that have no index.html')
+  .option('--max-concurrent <n>', 'Forward at most n requests at once; queue the rest')
+  .option('--queue-size <n>', 'Requests that may wait for a slot before callers get 503', '100')
+  .option('--overflow <mode>', "'wait' to queue requests over --max-concurrent, 'reject' to answer 503 at once", 'wait')
+  .option('--rate-limit <rate>', 'Requests allowed per caller IP, e.g. 60/min; more get 429')
+  .option('--timeout <seconds>', 'Answer 504 when the local service has not started a response by then', '25')
+  .option('--retries <n>', 'Retry GET, HEAD, PUT, DELETE and OPTIONS requests the local service refused, backing off in between', '0')
+  .option('--hold <seconds>', 'While the local service refuses connections, hold requests this long waiting for it to come back', '0')
+  .option('--verify <provider:secret>', "Check webhook signatures: 'stripe:<secret>', 'github:<secret>', 'slack:<secret>' or 'hmac:<header>:<secret>' (repeatable)", collect)
+  .option('--verify-reject', 'Answer requests with a missing or bad signature with 401 instead of forwarding them')
+  .option('--mock <dir>', 'Fixture directory: save responses there, or answer from it (see --mock-mode)')
+  .option('--mock-mode <mode>', "'record' to save live responses as fixtures, 'replay' to answer from them", 'replay')
+  .option('--mock-fallback <fallback>', "When replaying, '404' for requests no fixture matches, or 'live' to forward them", '404')
+  .option('--mock-match-body', 'Match fixtures on the request body too, not just method, path and query')
+  .option('--output <mode>', "'pretty' for the request table, 'json' for one event per line")
+  .option('--quiet', 'Print only the public URL')
+  .option('--log-file <file>', 'Append events as JSON lines to a file')
+  .option('--url-file <file>', 'Write the public URL to a file once connected')
+  .option('--env-file <file>', 'Set TUNNRL_URL in this dotenv file once connected')
+  .option('--drain-timeout <seconds>', 'On exit, answer new requests with 503 and let those in flight finish for up to this long', '10')
+  .option('--metrics-port <port>', 'Serve Prometheus metrics at http://127.0.0.1:<port>/metrics')
   .action((portArg: string | undefined, options: TunnelOptions) => {
-    const raw = portArg ?? process.env.PORT;
-    if (!raw) {
-      console.error('Error: port is required. Usage: tunnrl <port>  or  PORT=3000 tunnrl');
-      process.exit(1);
+    if (options.dir) {
+      if (portArg) {
+        console.error('Error: pass a port or --dir, not both');
+        process.exit(1);
+      }
+      startTunnel(undefined, { ...options, command: wrapped }).catch((err) => {
+        console.error('Fatal error:', err);
+        process.exit(1);
+      });
+      return;
     }
-    const port = parseInt(raw, 10);
-    if (isNaN(port) || port < 1 || port > 65535) {
-      console.error('Error: port must be a number between 1 and 65535');
-      process.exit(1);
+    let rawPort = portArg ?? process.env.PORT;
+    // `tunnrl https://localhost:8443` names the host, scheme and port in one go
+    if (rawPort && /^[a-z]+:\/\//i.test(rawPort)) {
+      try {
+        const { host, port, secure } = parseUpstream(rawPort);
+        options.host = secure ? `https://${host}` : host;
+        rawPort = String(port);
+      } catch (err) {
+        console.error(`Error: ${(err as Error).message}`);
+        process.exit(1);
+      }
     }
-    startTunnel(port, options).catch((err) => {
+    // With --route, the port is only the fallback for requests no rule matches
+    const port = rawPort || !options.route
+      ? parsePort(rawPort, 'tunnrl <port>  or  PORT=3000 tunnrl')
+      : undefined;
+    startTunnel(port, { ...options, command: wrapped }).catch((err) => {
+      console.error('Fatal error:', err);
+      process.exit(1);
+    });
+  });
+
+program
+  .command('tcp')
+  .description('Expose a local TCP port (Postgres, Redis, SSH…)')
+  .argument('<port>', 'Local port to tunnel')
+  .option('--host <host>', 'Local host to forward to', 'localhost')
+  .option('--server <url>', 'Relay to register with (or set TUNNRL_SERVER)')
+  .option('--authtoken <token>', 'Auth token for the relay (or set TUNNRL_AUTHTOKEN, or run tunnrl login)')
+  .option('--output <mode>', "'pretty' for the connection table, 'json' for one event per line")
+  .option('--quiet', 'Print only the public address')
+  .option('--log-file <file>', 'Append events as JSON lines to a file')
+  .option('--url-file <file>', 'Write the public address to a file once connected')
+  .action((portArg: string, options: TunnelOptions) => {
+    const port = parsePort(portArg, 'tunnrl tcp <port>');
+    startTunnel(port, { ...options, tcp: true }).catch((err) => {
+      console.error('Fatal error:', err);
+      process.exit(1);
+    });
+  });
+
+program
+  .command('start')
+  .description('Start tunnels defined in tunnrl.yml or tunnrl.json')
+  .argument('[names...]', 'Tunnels to start (default: all of them)')
+  .option('--config <file>', `Config file (default: first of ${CONFIG_FILES.join(', ')})`)
+  .option('--server <url>', 'Relay to register with (overrides the config file)')
+  .option('--authtoken <token>', 'Auth token for the relay (or set TUNNRL_AUTHTOKEN, or run tunnrl login)')
+  .option('--inspect-port <port>', 'Port for the local web inspector')
+  .option('--no-inspect', 'Disable the local web inspector')
+  .option('--record <file>', 'Append every request and response to a file')
+  .option('--output <mode>', "'pretty' for the request table, 'json' for one event per line")
+  .option('--quiet', 'Print only the public URLs')
+  .option('--log-file <file>', 'Append events as JSON lines to a file')
+  .option('--url-file <file>', 'Write the public URLs to a file once connected, one per line')
+  .option('--env-file <file>', 'Set TUNNRL_URL (and TUNNRL_URL_<NAME> per tunnel) in this dotenv file once connected')
+  .option('--drain-timeout <seconds>', 'On exit, answer new requests with 503 and let those in flight finish for up to this long', '10')
+  .option('--metrics-port <port>', 'Serve Prometheus metrics at http://127.0.0.1:<port>/metrics')
+  .action((names: string[], options: StartCommandOptions) => {
+    runStart(names, options).catch((err) => {
       console.error('Fatal error:', err);
       process.exit(1);
     });
   });
 
-program.parse(process.argv);
+program
+  .command('login')
+  .description('Save an auth token for registering with the relay')
+  .argument('<token>', 'Auth token from your relay operator')
+  .action((token: string) => {
+    runLogin(token).catch((err) => {
+      console.error('Fatal error:', err);
+      process.exit(1);
+    });
+  });
+
+program
+  .command('replay')
+  .description('Re-send recorded requests to a local service')
+  .argument('<file>', 'Recording (from --record) or HAR file')
+  .option('--port <port>', 'Local port to send to (or set PORT env var)')
+  .option('--host <host>', 'Local host to send to', 'localhost')
+  .option('--upstream-insecure', 'Accept self-signed certificates from an https:// local service')
+  .option('--method <methods>', 'Only replay these methods, e.g. POST,PUT')
+  .option('--path <glob>', "Only replay matching paths, e.g. '/webhooks/*'")
+  .action((file: string, options: ReplayCommandOptions) => {
+    const port = parsePort(options.port ?? process.env.PORT, 'tunnrl replay <file> --port <port>');
+    runReplay(file, port, options).catch((err) => {
+      console.error('Fatal error:', err);
+      process.exit(1);
+    });
+  });
+
+program
+  .command('export')
+  .description('Convert a recording to HAR 1.2')
+  .argument('<file>', 'Recording made with --record')
+  .option('-o, --out <file>', 'Write the HAR here instead of stdout')
+  .action((file: string, options: { out?: string }) => {
+    runExport(file, options.out);
+  });
+
+program
+  .command('server')
+  .description('Run a self-hosted tunnrl relay')
+  .option('--port <port>', 'Port to listen on (or set PORT env var)')
+  .option('--bind <address>', 'Interface to bind', '0.0.0.0')
+  .option('--domain <domain>', 'Base domain tunnels are served under (default: localhost:<port>)')
+  .option('--secure', 'Advertise https:// tunnel URLs (TLS terminated in front of the relay)')
+  .option('--max-tunnels <n>', 'Maximum number of simultaneous tunnels')
+  .option('--no-tcp', 'Refuse raw TCP tunnels')
+  .option('--tcp-ports <range>', 'Port range for TCP tunnels', '20000-20999')
+  .option('--authtoken <token>', 'Only accept clients presenting this token (repeatable, or set TUNNRL_AUTHTOKENS)', collectList)
+  .option('--reserve <name=token>', 'Keep a subdomain for the client presenting token (repeatable)', collect)
+  .option('--no-binary', 'Send bodies to clients as base64 in JSON, even to clients that support raw bytes')
+  .option('--no-compression', 'Do not deflate bodies sent to and from clients')
+  .option('--request-timeout <seconds>', 'Answer 504 when a client has not started a response by then', '30')
+  .action((options: ServerCommandOptions) => {
+    const port = parsePort(options.port ?? process.env.PORT ?? '8080', 'tunnrl server --port <port>');
+    runServer(port, options).catch((err) => {
+      console.error('Fatal error:', err);
+      process.exit(1);
+    });
+  });
+
+// Everything after `--` is a command to run alongside the tunnels, not arguments for tunnrl
+const separator = process.argv.indexOf('--', 2);
+const wrapped = separator === -1 ? [] : process.argv.slice(separator + 1);
+
+program.hook('preAction', (_program, action) => {
+  if (wrapped.length > 0 && action !== program && action.name() !== 'start') {
+    console.error(`Error: only \`tunnrl <port>\` and \`tunnrl start\` can run a command after --`);
+    process.exit(1);
+  }
+});
+
+program.parse(separator === -1 ? process.argv : process.argv.slice(0, separator));
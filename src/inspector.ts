@@ -0,0 +1,493 @@
+import * as http from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import type { ForwardedRequest, Headers } from './protocol';
+import type { Exchange } from './forward';
+import { RecordedExchange, decodeBody, toHar } from './record';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface InspectorOptions {
+  /** First port to try; the next nine are tried if it is busy (default: 4040) */
+  port?: number;
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string;
+  /** Number of requests kept in the list (default: 500) */
+  limit?: number;
+  /** Sends a request to the local service again, via the tunnel it first came through */
+  replay: (request: ForwardedRequest, tunnel?: string) => Promise<Exchange>;
+}
+
+/** One row in the inspector list */
+export interface InspectorSummary {
+  id: string;
+  time: number;
+  method: string;
+  path: string;
+  status: number;
+  duration: number;
+  bytesIn: number;
+  bytesOut: number;
+  error?: string;
+  /** Id of the entry this one replayed */
+  replayOf?: string;
+  /** Tunnel name, when more than one tunnel shares the inspector */
+  tunnel?: string;
+}
+
+/** Full request/response detail for one entry; bodies are base64 */
+export interface InspectorEntry extends InspectorSummary {
+  requestHeaders: Headers;
+  requestBody: string;
+  requestTruncated: boolean;
+  responseHeaders: Headers;
+  responseBody: string;
+  responseTruncated: boolean;
+}
+
+/** Body of POST /api/requests/:id/replay — any field left out keeps the original */
+interface ReplayEdits {
+  method?: string;
+  path?: string;
+  headers?: Headers;
+  /** Replacement body as text */
+  body?: string;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const payload = Buffer.from(JSON.stringify(body));
+  res.writeHead(status, { 'content-type': 'application/json', 'content-length': payload.length });
+  res.end(payload);
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function summarize(entry: InspectorEntry): InspectorSummary {
+  const { id, time, method, path, status, duration, bytesIn, bytesOut, error, replayOf, tunnel } = entry;
+  return { id, time, method, path, status, duration, bytesIn, bytesOut, error, replayOf, tunnel };
+}
+
+/** Entry bodies are already decoded, so the HAR carries readable content */
+function toRecorded(entry: InspectorEntry): RecordedExchange {
+  return {
+    startedAt: new Date(entry.time).toISOString(),
+    duration: entry.duration,
+    request: {
+      type: 'request',
+      requestId: entry.id,
+      method: entry.method,
+      path: entry.path,
+      headers: entry.requestHeaders,
+      body: entry.requestBody,
+    },
+    response: {
+      type: 'response',
+      requestId: entry.id,
+      status: entry.status,
+      headers: entry.responseHeaders,
+      body: entry.responseBody,
+    },
+    bytesOut: entry.bytesOut,
+    error: entry.error,
+  };
+}
+
+// ─── Inspector ───────────────────────────────────────────────────────────────
+
+/**
+ * Local web dashboard for tunneled traffic. Lists every request with full
+ * headers and bodies, pushes new ones to open pages over server-sent events,
+ * and can replay any entry, optionally edited, against the local service.
+ */
+export class Inspector {
+  private _server: http.Server;
+  private _entries: InspectorEntry[] = [];
+  private _clients = new Set<http.ServerResponse>();
+  private _port = 0;
+
+  constructor(private _options: InspectorOptions) {
+    this._server = http.createServer((req, res) => {
+      this._handle(req, res).catch((err: Error) => {
+        if (!res.headersSent) sendJson(res, 500, { error: err.message });
+      });
+    });
+  }
+
+  /** The dashboard URL, once listening */
+  get url(): string {
+    return `http://${this._options.host ?? '127.0.0.1'}:${this._port}`;
+  }
+
+  /** Bind the first free port starting at options.port. Resolves with the URL. */
+  async listen(): Promise<string> {
+    const first = this._options.port ?? 4040;
+    const host = this._options.host ?? '127.0.0.1';
+    for (let port = first; port < first + 10; port++) {
+      const bound = await new Promise<boolean>((resolve, reject) => {
+        const onError = (err: NodeJS.ErrnoException) => {
+          if (err.code === 'EADDRINUSE') resolve(false);
+          else reject(err);
+        };
+        this._server.once('error', onError);
+        this._server.listen(port, host, () => {
+          this._server.off('error', onError);
+          resolve(true);
+        });
+      });
+      if (bound) {
+        this._port = port;
+        return this.url;
+      }
+    }
+    throw new Error(`Inspector could not find a free port in ${first}-${first + 9}`);
+  }
+
+  close(): void {
+    for (const client of this._clients) client.end();
+    this._server.close();
+  }
+
+  /** Record a completed exchange and push it to open dashboards */
+  add(exchange: Exchange, replayOf?: string, tunnel?: string): InspectorEntry {
+    const { request } = exchange;
+    const requestBody = Buffer.from(request.body, 'base64');
+    const responseTruncated = exchange.responseBody.length < exchange.bytesOut;
+
+    const entry: InspectorEntry = {
+      id: request.requestId,
+      time: Date.now() - exchange.duration,
+      method: request.method,
+      path: request.path,
+      status: exchange.status,
+      duration: exchange.duration,
+      bytesIn: exchange.bytesIn,
+      bytesOut: exchange.bytesOut,
+      error: exchange.error,
+      replayOf,
+      tunnel,
+      requestHeaders: request.headers,
+      requestBody: request.body,
+      requestTruncated: requestBody.length < exchange.bytesIn,
+      responseHeaders: exchange.headers,
+      responseBody: decodeBody(exchange.responseBody, exchange.headers, responseTruncated).toString('base64'),
+      responseTruncated,
+    };
+
+    this._entries.push(entry);
+    if (this._entries.length > (this._options.limit ?? 500)) this._entries.shift();
+
+    const frame = `data: ${JSON.stringify(summarize(entry))}\n\n`;
+    for (const client of this._clients) client.write(frame);
+    return entry;
+  }
+
+  private async _handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://inspector');
+
+    if (req.method === 'GET' && pathname === '/') {
+      res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+      res.end(INSPECTOR_HTML);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/requests') {
+      sendJson(res, 200, this._entries.map(summarize).reverse());
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/har') {
+      const har = toHar(this._entries.map(toRecorded));
+      res.writeHead(200, {
+        'content-type': 'application/json',
+        'content-disposition': 'attachment; filename="tunnrl.har"',
+      });
+      res.end(JSON.stringify(har, null, 2));
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/api/events') {
+      res.writeHead(200, {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      this._clients.add(res);
+      req.on('close', () => this._clients.delete(res));
+      return;
+    }
+
+    const match = /^\/api\/requests\/([^/]+)(\/replay)?$/.exec(pathname);
+    if (!match) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const entry = this._entries.find((e) => e.id === match[1]);
+    if (!entry) {
+      sendJson(res, 404, { error: 'Request not found' });
+      return;
+    }
+
+    if (!match[2] && req.method === 'GET') {
+      sendJson(res, 200, entry);
+      return;
+    }
+
+    if (match[2] && req.method === 'POST') {
+      const raw = await readBody(req);
+      let edits: ReplayEdits = {};
+      if (raw.length > 0) {
+        try {
+          edits = JSON.parse(raw.toString()) as ReplayEdits;
+        } catch {
+          sendJson(res, 400, { error: 'Replay edits must be JSON' });
+          return;
+        }
+      }
+
+      const body = edits.body !== undefined ? Buffer.from(edits.body).toString('base64') : entry.requestBody;
+      const request: ForwardedRequest = {
+        type: 'request',
+        requestId: uuidv4(),
+        method: (edits.method ?? entry.method).toUpperCase(),
+        path: edits.path ?? entry.path,
+        headers: edits.headers ?? entry.requestHeaders,
+        body,
+      };
+      const exchange = await this._options.replay(request, entry.tunnel);
+      sendJson(res, 200, summarize(this.add(exchange, entry.id, entry.tunnel)));
+      return;
+    }
+
+    sendJson(res, 405, { error: 'Method not allowed' });
+  }
+}
+
+// ─── Dashboard page ──────────────────────────────────────────────────────────
+// Self-contained so the inspector works offline. Bodies are decoded in the
+// browser: JSON is pretty-printed, form bodies are shown as fields, anything
+// that is not valid UTF-8 is shown as a hex dump.
+
+const INSPECTOR_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>tunnrl inspector</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, monospace; background: #111; color: #ddd; display: flex; height: 100vh; }
+  #list { width: 42%; overflow-y: auto; border-right: 1px solid #333; }
+  #detail { flex: 1; overflow-y: auto; padding: 16px 20px; }
+  header { padding: 10px 14px; border-bottom: 1px solid #333; color: #888; display: flex; justify-content: space-between; }
+  header a { color: #56c7d6; margin-left: 10px; text-decoration: none; }
+  .row { display: grid; grid-template-columns: 44px 64px 1fr 64px 72px; gap: 8px; padding: 6px 14px; cursor: pointer; border-bottom: 1px solid #1c1c1c; }
+  .row:hover { background: #1a1a1a; }
+  .row.active { background: #23303d; }
+  .path { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .muted { color: #777; }
+  .s2 { color: #5fd068; } .s3 { color: #56c7d6; } .s4 { color: #e6c84f; } .s5, .err { color: #ef5b5b; }
+  h2 { font-size: 15px; margin: 0 0 12px; }
+  h3 { font-size: 12px; text-transform: uppercase; color: #888; margin: 20px 0 6px; }
+  table { border-collapse: collapse; width: 100%; }
+  td { padding: 2px 8px 2px 0; vertical-align: top; word-break: break-all; }
+  td:first-child { color: #9ab; white-space: nowrap; width: 1%; }
+  pre { background: #181818; padding: 10px; margin: 0; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
+  button { font: inherit; background: #2a3b4c; color: #ddd; border: 1px solid #3d5266; padding: 4px 10px; cursor: pointer; margin-right: 6px; }
+  input, textarea { font: inherit; background: #181818; color: #ddd; border: 1px solid #333; padding: 4px 6px; width: 100%; }
+  textarea { min-height: 90px; }
+  label { display: block; color: #888; margin: 8px 0 2px; }
+  .tag { font-size: 11px; color: #111; background: #56c7d6; padding: 0 4px; margin-left: 6px; }
+</style>
+</head>
+<body>
+<div id="list"><header><span>tunnrl inspector</span><span><span id="count" class="muted"></span> <a href="/api/har" download>Export HAR</a></span></header><div id="rows"></div></div>
+<div id="detail"><p class="muted">Select a request to inspect it.</p></div>
+<script>
+const rows = document.getElementById('rows');
+const detail = document.getElementById('detail');
+let entries = [];
+let selected = null;
+
+function el(tag, attrs, ...children) {
+  const node = document.createElement(tag);
+  for (const [k, v] of Object.entries(attrs || {})) {
+    if (k === 'class') node.className = v;
+    else if (k.startsWith('on')) node.addEventListener(k.slice(2), v);
+    else node.setAttribute(k, v);
+  }
+  for (const child of children) node.append(child instanceof Node ? child : String(child ?? ''));
+  return node;
+}
+
+function bytes(n) {
+  if (n < 1024) return n + ' B';
+  if (n < 1048576) return (n / 1024).toFixed(1) + ' KB';
+  return (n / 1048576).toFixed(1) + ' MB';
+}
+
+function statusClass(s) { return s ? 's' + String(s)[0] : 'err'; }
+
+function render() {
+  rows.replaceChildren(...entries.map((e) => el('div', {
+    class: 'row' + (selected === e.id ? ' active' : ''),
+    onclick: () => show(e.id),
+  },
+    el('span', { class: statusClass(e.status) }, e.status || 'ERR'),
+    el('span', {}, e.method),
+    el('span', { class: 'path', title: e.path },
+      e.tunnel ? el('span', { class: 'muted' }, e.tunnel + ' ') : '',
+      e.path,
+      e.replayOf ? el('span', { class: 'tag' }, 'replay') : ''),
+    el('span', { class: 'muted' }, e.duration + 'ms'),
+    el('span', { class: 'muted' }, bytes(e.bytesOut)),
+  )));
+  document.getElementById('count').textContent = entries.length + ' requests';
+}
+
+function header(headers, name) {
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  const v = key ? headers[key] : '';
+  return Array.isArray(v) ? v.join(', ') : v;
+}
+
+function decode(b64) {
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function hexdump(buf) {
+  const lines = [];
+  for (let i = 0; i < buf.length; i += 16) {
+    const slice = Array.from(buf.slice(i, i + 16));
+    const hex = slice.map((b) => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = slice.map((b) => (b >= 32 && b < 127 ? String.fromCharCode(b) : '.')).join('');
+    lines.push(i.toString(16).padStart(8, '0') + '  ' + hex.padEnd(48) + '  ' + ascii);
+  }
+  return lines.join('\\n');
+}
+
+function fieldsTable(pairs) {
+  return el('table', {}, ...pairs.map(([k, v]) => el('tr', {}, el('td', {}, k), el('td', {}, v))));
+}
+
+function multipart(text, contentType) {
+  const m = /boundary="?([^";]+)"?/.exec(contentType);
+  if (!m) return null;
+  const pairs = [];
+  for (const part of text.split('--' + m[1]).slice(1, -1)) {
+    const [head, ...rest] = part.replace(/^\\r\\n/, '').split('\\r\\n\\r\\n');
+    const name = (/name="([^"]*)"/.exec(head) || [])[1] || '?';
+    const file = (/filename="([^"]*)"/.exec(head) || [])[1];
+    const value = rest.join('\\r\\n\\r\\n').replace(/\\r\\n$/, '');
+    pairs.push([name, file ? '[file ' + file + ', ' + bytes(value.length) + ']' : value]);
+  }
+  return fieldsTable(pairs);
+}
+
+function renderBody(b64, headers, truncated) {
+  const buf = decode(b64);
+  if (buf.length === 0) return el('p', { class: 'muted' }, 'Empty body');
+  const type = header(headers, 'content-type').toLowerCase();
+  const note = truncated ? el('p', { class: 'muted' }, 'Body truncated for display') : '';
+  let text = null;
+  try { text = new TextDecoder('utf-8', { fatal: true }).decode(buf); } catch { /* binary */ }
+  if (text === null) return el('div', {}, note, el('pre', {}, hexdump(buf)));
+  if (type.includes('json')) {
+    try { return el('div', {}, note, el('pre', {}, JSON.stringify(JSON.parse(text), null, 2))); } catch { /* not valid JSON */ }
+  }
+  if (type.includes('application/x-www-form-urlencoded')) {
+    return el('div', {}, note, fieldsTable(Array.from(new URLSearchParams(text).entries())));
+  }
+  if (type.includes('multipart/form-data')) {
+    const table = multipart(text, type);
+    if (table) return el('div', {}, note, table);
+  }
+  return el('div', {}, note, el('pre', {}, text));
+}
+
+function headersTable(headers) {
+  return fieldsTable(Object.entries(headers).map(([k, v]) => [k, Array.isArray(v) ? v.join('\\n') : v]));
+}
+
+async function replay(id, edits) {
+  const res = await fetch('/api/requests/' + id + '/replay', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(edits || {}),
+  });
+  const entry = await res.json();
+  if (entry.id) show(entry.id);
+}
+
+function editForm(e) {
+  const text = new TextDecoder().decode(decode(e.requestBody));
+  const method = el('input', { value: e.method });
+  const path = el('input', { value: e.path });
+  const headers = el('textarea', {});
+  headers.value = Object.entries(e.requestHeaders)
+    .flatMap(([k, v]) => (Array.isArray(v) ? v : [v]).map((x) => k + ': ' + x)).join('\\n');
+  const body = el('textarea', {});
+  body.value = text;
+  const form = el('div', {},
+    el('label', {}, 'Method'), method,
+    el('label', {}, 'Path'), path,
+    el('label', {}, 'Headers'), headers,
+    el('label', {}, 'Body'), body,
+    el('p', {}, el('button', { onclick: () => {
+      const parsed = {};
+      for (const line of headers.value.split('\\n')) {
+        const i = line.indexOf(':');
+        if (i <= 0) continue;
+        const k = line.slice(0, i).trim().toLowerCase();
+        const v = line.slice(i + 1).trim();
+        if (k === 'content-length') continue;
+        parsed[k] = parsed[k] ? [].concat(parsed[k], v) : v;
+      }
+      replay(e.id, { method: method.value, path: path.value, headers: parsed, body: body.value });
+    } }, 'Send')),
+  );
+  return form;
+}
+
+async function show(id) {
+  selected = id;
+  render();
+  const e = await (await fetch('/api/requests/' + id)).json();
+  const editSlot = el('div', {});
+  detail.replaceChildren(
+    el('h2', {}, e.method + ' ' + e.path),
+    el('p', {},
+      el('span', { class: statusClass(e.status) }, e.status || 'ERR'), ' ',
+      el('span', { class: 'muted' }, e.duration + 'ms · ' + bytes(e.bytesIn) + ' in · ' + bytes(e.bytesOut) + ' out · ' + new Date(e.time).toLocaleTimeString()),
+      e.error ? el('span', { class: 'err' }, ' · ' + e.error) : ''),
+    el('p', {},
+      el('button', { onclick: () => replay(e.id) }, 'Replay'),
+      el('button', { onclick: () => editSlot.replaceChildren(editForm(e)) }, 'Edit & replay')),
+    editSlot,
+    el('h3', {}, 'Request headers'), headersTable(e.requestHeaders),
+    el('h3', {}, 'Request body'), renderBody(e.requestBody, e.requestHeaders, e.requestTruncated),
+    el('h3', {}, 'Response headers'), headersTable(e.responseHeaders),
+    el('h3', {}, 'Response body'), renderBody(e.responseBody, e.responseHeaders, e.responseTruncated),
+  );
+}
+
+fetch('/api/requests').then((r) => r.json()).then((list) => { entries = list; render(); });
+new EventSource('/api/events').onmessage = (msg) => {
+  entries.unshift(JSON.parse(msg.data));
+  render();
+};
+</script>
+</body>
+</html>
+`;
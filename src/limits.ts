@@ -0,0 +1,185 @@
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** `requests` per `windowMs`, e.g. 60 per 60000 for `60/min` */
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+/** What happens to requests over the concurrency limit */
+export type OverflowMode = 'wait' | 'reject';
+
+/** Limits on traffic reaching one local service */
+export interface LimitOptions {
+  /** Requests forwarded at once; the rest wait or get a 503 */
+  maxConcurrent?: number;
+  /** `wait` queues requests over the limit (default), `reject` answers 503 straight away */
+  overflow?: OverflowMode;
+  /** Requests allowed to wait before new ones get a 503 (default: 100) */
+  queueSize?: number;
+  /** Requests per caller IP; more get a 429 with Retry-After */
+  rateLimit?: RateLimit;
+}
+
+/** How a request fared against the concurrency limit */
+export type Admission = 'started' | 'queued' | 'full';
+
+const UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000, sec: 1000, second: 1000,
+  m: 60_000, min: 60_000, minute: 60_000,
+  h: 3_600_000, hr: 3_600_000, hour: 3_600_000,
+  d: 86_400_000, day: 86_400_000,
+};
+
+/** Callers remembered before buckets that have refilled are dropped */
+const MAX_BUCKETS = 10_000;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** Limits as written on the command line, in a config file or passed to `tunnrl()` */
+export interface LimitInput {
+  maxConcurrent?: string | number;
+  overflow?: string;
+  queueSize?: string | number;
+  rateLimit?: string;
+}
+
+function parseCount(raw: string | number, what: string, min: number): number {
+  const value = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isInteger(value) || value < min) throw new Error(`${what} must be a whole number of at least ${min}`);
+  return value;
+}
+
+/** Validate and convert; throws on the first bad value */
+export function parseLimits(input: LimitInput): LimitOptions {
+  const limits: LimitOptions = {};
+  if (input.maxConcurrent !== undefined) limits.maxConcurrent = parseCount(input.maxConcurrent, 'The concurrency limit', 1);
+  if (input.queueSize !== undefined) limits.queueSize = parseCount(input.queueSize, 'The queue size', 0);
+  if (input.overflow !== undefined) {
+    if (input.overflow !== 'wait' && input.overflow !== 'reject') {
+      throw new Error(`Overflow must be "wait" or "reject", not "${input.overflow}"`);
+    }
+    limits.overflow = input.overflow;
+  }
+  if (input.rateLimit !== undefined) limits.rateLimit = parseRateLimit(input.rateLimit);
+  return limits;
+}
+
+/** Parse `60/min`, `10/s` or `1000/hour`; the period may carry a count, as in `5/10s` */
+export function parseRateLimit(spec: string): RateLimit {
+  const match = /^\s*(\d+)\s*\/\s*(\d*)\s*([a-z]+)\s*$/i.exec(spec);
+  const name = match?.[3].toLowerCase() ?? '';
+  const unit = UNITS[name] ?? UNITS[name.replace(/s$/, '')];
+  const requests = match ? parseInt(match[1], 10) : 0;
+  const count = match?.[2] ? parseInt(match[2], 10) : 1;
+  if (!unit || requests < 1 || count < 1) {
+    throw new Error(`Invalid rate limit "${spec}": expected requests per period, e.g. 60/min or 10/s`);
+  }
+  return { requests, windowMs: count * unit };
+}
+
+/** `60/min`, for the banner and log lines */
+export function formatRateLimit(limit: RateLimit): string {
+  const names: Array<[number, string]> = [[86_400_000, 'day'], [3_600_000, 'hour'], [60_000, 'min'], [1000, 's']];
+  for (const [ms, name] of names) {
+    if (limit.windowMs % ms === 0) {
+      const count = limit.windowMs / ms;
+      return `${limit.requests}/${count === 1 ? '' : count}${name}`;
+    }
+  }
+  return `${limit.requests}/${limit.windowMs}ms`;
+}
+
+// ─── Rate limiter ────────────────────────────────────────────────────────────
+
+/**
+ * Token bucket per caller: each may burst up to `requests` at once, and
+ * gets them back evenly over `windowMs`.
+ */
+export class RateLimiter {
+  private _buckets = new Map<string, { tokens: number; updated: number }>();
+
+  constructor(readonly limit: RateLimit) {}
+
+  /** Count one request from `key`. Returns null when it may go ahead, otherwise seconds until it may. */
+  take(key: string, now = Date.now()): number | null {
+    const { requests, windowMs } = this.limit;
+    const perMs = requests / windowMs;
+    const bucket = this._buckets.get(key) ?? { tokens: requests, updated: now };
+    bucket.tokens = Math.min(requests, bucket.tokens + (now - bucket.updated) * perMs);
+    bucket.updated = now;
+
+    // Re-insert so the map stays ordered by last use
+    this._buckets.delete(key);
+    this._buckets.set(key, bucket);
+    if (this._buckets.size > MAX_BUCKETS) this._prune(now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return null;
+    }
+    return Math.max(1, Math.ceil((1 - bucket.tokens) / perMs / 1000));
+  }
+
+  private _prune(now: number): void {
+    const { requests, windowMs } = this.limit;
+    for (const [key, bucket] of this._buckets) {
+      if (this._buckets.size <= MAX_BUCKETS / 2) break;
+      // Full again by now: forgetting it changes nothing for that caller
+      if (bucket.tokens + ((now - bucket.updated) * requests) / windowMs >= requests) this._buckets.delete(key);
+    }
+  }
+}
+
+// ─── Concurrency limiter ─────────────────────────────────────────────────────
+
+/**
+ * Lets `max` requests run at once. Past that, requests wait in a queue of
+ * `queueSize` (or are turned away straight away with `overflow: 'reject'`)
+ * and start in arrival order as running ones finish.
+ */
+export class ConcurrencyLimiter {
+  private _active = new Set<string>();
+  private _queue: Array<{ id: string; start: () => void }> = [];
+
+  constructor(
+    readonly max: number,
+    readonly overflow: OverflowMode = 'wait',
+    readonly queueSize = 100
+  ) {}
+
+  get active(): number {
+    return this._active.size;
+  }
+
+  get queued(): number {
+    return this._queue.length;
+  }
+
+  /** Call `start` now if a slot is free, or later when one frees up; `full` means it never will be */
+  admit(id: string, start: () => void): Admission {
+    if (this._active.size < this.max) {
+      this._active.add(id);
+      start();
+      return 'started';
+    }
+    if (this.overflow === 'reject' || this._queue.length >= this.queueSize) return 'full';
+    this._queue.push({ id, start });
+    return 'queued';
+  }
+
+  /** The request finished or was abandoned: free its slot, or its place in the queue */
+  release(id: string): void {
+    if (this._active.delete(id)) {
+      const next = this._queue.shift();
+      if (next) {
+        this._active.add(next.id);
+        next.start();
+      }
+      return;
+    }
+    const index = this._queue.findIndex((entry) => entry.id === id);
+    if (index !== -1) this._queue.splice(index, 1);
+  }
+}
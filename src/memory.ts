@@ -0,0 +1,153 @@
+import * as http from 'http';
+import { Duplex, Readable } from 'stream';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A fetch-style handler: `(request) => response`, as used by Hono, itty-router, Workers… */
+export type FetchHandler = (request: Request) => Response | Promise<Response>;
+
+// ─── In-memory sockets ───────────────────────────────────────────────────────
+
+/**
+ * One end of an in-memory connection. Bytes written here are read from the
+ * peer, with backpressure. Carries the few `net.Socket` methods the HTTP and
+ * WebSocket code call, so both ends can stand in for a TCP connection.
+ */
+class MemorySocket extends Duplex {
+  readonly remoteAddress = '127.0.0.1';
+  readonly remotePort = 0;
+  readonly localAddress = '127.0.0.1';
+  readonly localPort = 0;
+
+  private _peer: MemorySocket | null = null;
+  /** Write callback held back until the peer reads again */
+  private _blocked: (() => void) | null = null;
+
+  static pair(): [MemorySocket, MemorySocket] {
+    const a = new MemorySocket();
+    const b = new MemorySocket();
+    a._peer = b;
+    b._peer = a;
+    return [a, b];
+  }
+
+  _read(): void {
+    const peer = this._peer;
+    const blocked = peer?._blocked;
+    if (peer && blocked) {
+      peer._blocked = null;
+      blocked();
+    }
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, cb: (err?: Error | null) => void): void {
+    const peer = this._peer;
+    if (!peer || peer.destroyed) {
+      cb(new Error('Connection closed'));
+      return;
+    }
+    if (peer.push(chunk)) cb();
+    else this._blocked = () => cb();
+  }
+
+  _final(cb: (err?: Error | null) => void): void {
+    this._peer?.push(null);
+    cb();
+  }
+
+  _destroy(err: Error | null, cb: (err: Error | null) => void): void {
+    const peer = this._peer;
+    this._peer = null;
+    if (peer && !peer.destroyed) {
+      // Like a TCP FIN: the peer still reads what was already sent, then sees the end
+      peer._peer = null;
+      peer.push(null);
+      peer._blocked?.();
+    }
+    cb(err);
+  }
+
+  setTimeout(_ms: number, cb?: () => void): this {
+    if (cb) this.once('timeout', cb);
+    return this;
+  }
+
+  setNoDelay(): this {
+    return this;
+  }
+
+  setKeepAlive(): this {
+    return this;
+  }
+
+  ref(): this {
+    return this;
+  }
+
+  unref(): this {
+    return this;
+  }
+}
+
+/**
+ * A `createConnection` function for http.request / ws that connects to
+ * `server` in memory. The server never needs to listen on a port.
+ */
+export function inMemoryConnector(server: http.Server): () => Duplex {
+  return () => {
+    const [client, local] = MemorySocket.pair();
+    server.emit('connection', local);
+    return client;
+  };
+}
+
+// ─── Fetch-style handlers ────────────────────────────────────────────────────
+
+/** Wrap a fetch-style handler as a Node request listener */
+export function fetchListener(handler: FetchHandler): http.RequestListener {
+  return async (req, res) => {
+    try {
+      const proto = String(req.headers['x-forwarded-proto'] ?? 'http').split(',')[0];
+      const host = String(req.headers['x-forwarded-host'] ?? req.headers.host ?? 'localhost').split(',')[0];
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value === undefined) continue;
+        for (const v of ([] as string[]).concat(value)) headers.append(name, v);
+      }
+      const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+      const request = new Request(`${proto}://${host}${req.url ?? '/'}`, {
+        method: req.method,
+        headers,
+        body: hasBody ? (Readable.toWeb(req) as unknown as ReadableStream) : undefined,
+        duplex: 'half',
+      } as RequestInit);
+
+      const response = await handler(request);
+
+      const out: http.OutgoingHttpHeaders = {};
+      response.headers.forEach((value, name) => {
+        if (name !== 'set-cookie') out[name] = value;
+      });
+      const cookies = typeof response.headers.getSetCookie === 'function'
+        ? response.headers.getSetCookie()
+        : response.headers.get('set-cookie') ?? [];
+      if (cookies.length > 0) out['set-cookie'] = cookies;
+      res.writeHead(response.status, response.statusText, out);
+
+      if (!response.body || req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+      const body = Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]);
+      body.on('error', () => res.destroy());
+      body.pipe(res);
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(500, { 'content-type': 'text/plain' });
+      res.end(`Handler error: ${(err as Error).message}`);
+    }
+  };
+}
@@ -0,0 +1,221 @@
+import * as http from 'http';
+import type { Exchange } from './forward';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StatusClass = '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+
+const STATUS_CLASSES: StatusClass[] = ['1xx', '2xx', '3xx', '4xx', '5xx'];
+
+/** Response times in ms, over the most recent requests */
+export interface Latency {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/** Traffic through one tunnel, or one of its routes */
+export interface TrafficCounts {
+  requests: number;
+  latency: Latency;
+  /** Requests that never got a response (cancelled, or the tunnel dropped) count towards no class */
+  status: Record<StatusClass, number>;
+  bytesIn: number;
+  bytesOut: number;
+  /** Requests tunnrl answered with a 502: the local service was down, refused or broke off */
+  errors: number;
+  /** Requests tunnrl answered with a 504: no response within the timeout (25s by default) */
+  timeouts: number;
+  /** Time spent answering, in ms, summed over every request */
+  duration: number;
+}
+
+export interface TunnelStats extends TrafficCounts {
+  /** When counting started (epoch ms) */
+  since: number;
+  /** Requests turned away before reaching the local service: access rules, limits, signatures */
+  rejected: number;
+  /** Per route rule, e.g. `/api/*`; requests to the fallback upstream are under `default` */
+  routes: Record<string, TrafficCounts>;
+}
+
+/** Latency percentiles are taken over this many of the most recent requests */
+const LATENCY_WINDOW = 1000;
+
+// ─── Counting ────────────────────────────────────────────────────────────────
+
+/** Counters for one group of requests, with a ring buffer of recent durations */
+class Traffic {
+  requests = 0;
+  status: Record<StatusClass, number> = { '1xx': 0, '2xx': 0, '3xx': 0, '4xx': 0, '5xx': 0 };
+  bytesIn = 0;
+  bytesOut = 0;
+  errors = 0;
+  timeouts = 0;
+  duration = 0;
+  private _samples: number[] = [];
+  private _next = 0;
+
+  add(exchange: Exchange): void {
+    this.requests++;
+    const cls = STATUS_CLASSES[Math.floor(exchange.status / 100) - 1];
+    if (cls) this.status[cls]++;
+    this.bytesIn += exchange.bytesIn;
+    this.bytesOut += exchange.bytesOut;
+    if (exchange.failure === 'error') this.errors++;
+    if (exchange.failure === 'timeout') this.timeouts++;
+    this.duration += exchange.duration;
+    if (this._samples.length < LATENCY_WINDOW) this._samples.push(exchange.duration);
+    else this._samples[this._next] = exchange.duration;
+    this._next = (this._next + 1) % LATENCY_WINDOW;
+  }
+
+  counts(): TrafficCounts {
+    const sorted = [...this._samples].sort((a, b) => a - b);
+    // Nearest rank: the smallest sample at or above the given share of them
+    const rank = (p: number) => (sorted.length ? sorted[Math.ceil(p * sorted.length) - 1] : 0);
+    const { requests, bytesIn, bytesOut, errors, timeouts, duration } = this;
+    return {
+      requests,
+      latency: { p50: rank(0.5), p95: rank(0.95), p99: rank(0.99) },
+      status: { ...this.status },
+      bytesIn, bytesOut, errors, timeouts, duration,
+    };
+  }
+}
+
+/**
+ * Traffic stats for one tunnel, overall and per route. Counters run from
+ * when the tunnel started; latency percentiles cover the last 1000 requests
+ * in each group, so they follow changes in how the service behaves.
+ */
+export class TrafficStats {
+  readonly since = Date.now();
+  private _total = new Traffic();
+  private _routes = new Map<string, Traffic>();
+  private _rejected = 0;
+
+  add(exchange: Exchange): void {
+    this._total.add(exchange);
+    const route = exchange.route ?? 'default';
+    let traffic = this._routes.get(route);
+    if (!traffic) {
+      traffic = new Traffic();
+      this._routes.set(route, traffic);
+    }
+    traffic.add(exchange);
+  }
+
+  reject(): void {
+    this._rejected++;
+  }
+
+  snapshot(): TunnelStats {
+    const routes: Record<string, TrafficCounts> = {};
+    for (const [route, traffic] of this._routes) routes[route] = traffic.counts();
+    return { since: this.since, ...this._total.counts(), rejected: this._rejected, routes };
+  }
+}
+
+// ─── Prometheus ──────────────────────────────────────────────────────────────
+
+const QUANTILES: [string, keyof Latency][] = [['0.5', 'p50'], ['0.95', 'p95'], ['0.99', 'p99']];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labels(pairs: Record<string, string>): string {
+  return `{${Object.entries(pairs).map(([key, val]) => `${key}="${escapeLabel(val)}"`).join(',')}}`;
+}
+
+/**
+ * The stats of every tunnel in the Prometheus text format, labelled by
+ * tunnel and route. Latency is a summary in seconds, its quantiles over
+ * the same recent window as `snapshot()`.
+ */
+export function formatPrometheus(tunnels: { name: string; stats: TunnelStats }[]): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: 'counter' | 'summary', help: string, samples: string[]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+  };
+  const perRoute = (sample: (base: Record<string, string>, counts: TrafficCounts) => string[]) => tunnels.flatMap(({ name, stats }) => (
+    Object.entries(stats.routes).flatMap(([route, counts]) => sample({ tunnel: name, route }, counts))
+  ));
+
+  metric('tunnrl_requests_total', 'counter', 'Requests answered, by status class', perRoute((base, counts) => (
+    STATUS_CLASSES.map((cls) => `tunnrl_requests_total${labels({ ...base, status_class: cls })} ${counts.status[cls]}`)
+  )));
+  metric('tunnrl_request_duration_seconds', 'summary', 'Time from request to the end of the response', perRoute((base, counts) => [
+    ...QUANTILES.map(([quantile, key]) => `tunnrl_request_duration_seconds${labels({ ...base, quantile })} ${counts.latency[key] / 1000}`),
+    `tunnrl_request_duration_seconds_sum${labels(base)} ${counts.duration / 1000}`,
+    `tunnrl_request_duration_seconds_count${labels(base)} ${counts.requests}`,
+  ]));
+  metric('tunnrl_received_bytes_total', 'counter', 'Request body bytes received from callers', perRoute((base, counts) => [
+    `tunnrl_received_bytes_total${labels(base)} ${counts.bytesIn}`,
+  ]));
+  metric('tunnrl_sent_bytes_total', 'counter', 'Response body bytes sent back to callers', perRoute((base, counts) => [
+    `tunnrl_sent_bytes_total${labels(base)} ${counts.bytesOut}`,
+  ]));
+  metric('tunnrl_upstream_errors_total', 'counter', 'Requests answered with 502 because the local service failed', perRoute((base, counts) => [
+    `tunnrl_upstream_errors_total${labels(base)} ${counts.errors}`,
+  ]));
+  metric('tunnrl_upstream_timeouts_total', 'counter', 'Requests answered with 504 because the local service was too slow', perRoute((base, counts) => [
+    `tunnrl_upstream_timeouts_total${labels(base)} ${counts.timeouts}`,
+  ]));
+  metric('tunnrl_rejected_total', 'counter', 'Requests turned away before reaching the local service', tunnels.map(({ name, stats }) => (
+    `tunnrl_rejected_total${labels({ tunnel: name })} ${stats.rejected}`
+  )));
+  return `${lines.join('\n')}\n`;
+}
+
+// ─── Endpoint ────────────────────────────────────────────────────────────────
+
+/** Serves `collect()` at `GET /metrics` for Prometheus to scrape */
+export class MetricsServer {
+  private _server: http.Server;
+  private _port = 0;
+
+  constructor(private _collect: () => string, private _host = '127.0.0.1') {
+    this._server = http.createServer((req, res) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://metrics');
+      if (pathname !== '/metrics') {
+        res.writeHead(404, { 'content-type': 'text/plain' });
+        res.end('Not found; metrics are at /metrics\n');
+        return;
+      }
+      if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { 'content-type': 'text/plain', allow: 'GET, HEAD' });
+        res.end('Method not allowed\n');
+        return;
+      }
+      const body = this._collect();
+      res.writeHead(200, { 'content-type': 'text/plain; version=0.0.4; charset=utf-8', 'content-length': Buffer.byteLength(body) });
+      res.end(req.method === 'HEAD' ? undefined : body);
+    });
+  }
+
+  /** The endpoint URL, once listening */
+  get url(): string {
+    return `http://${this._host}:${this._port}/metrics`;
+  }
+
+  /** Bind `port` (0 for any free one). Resolves with the URL. */
+  listen(port: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const onError = (err: NodeJS.ErrnoException) => {
+        reject(new Error(err.code === 'EADDRINUSE' ? `Metrics port ${port} is already in use` : `Cannot serve metrics: ${err.message}`));
+      };
+      this._server.once('error', onError);
+      this._server.listen(port, this._host, () => {
+        this._server.off('error', onError);
+        this._port = (this._server.address() as { port: number }).port;
+        resolve(this.url);
+      });
+    });
+  }
+
+  close(): void {
+    this._server.close();
+  }
+}
@@ -0,0 +1,221 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Headers } from './protocol';
+import type { BufferedRequest, BufferedResponse, Exchange } from './forward';
+import { headerValue } from './record';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** `record` saves live responses as fixtures; `replay` answers from them */
+export type MockMode = 'record' | 'replay';
+
+/** What `replay` does with a request no fixture matches */
+export type MockFallback = '404' | 'live';
+
+export interface MockOptions {
+  /** Directory holding one JSON file per fixture */
+  dir: string;
+  mode: MockMode;
+  /** `404` (default) answers unmatched requests with a 404; `live` forwards them */
+  fallback: MockFallback;
+  /** Match the request body too, by its SHA-256 */
+  matchBody: boolean;
+}
+
+/** One fixture file: the request it answers and the response to answer with */
+export interface Fixture {
+  request: {
+    method: string;
+    /** Without the query string */
+    path: string;
+    /** Query string with its parameters sorted, without the `?`; empty when there is none */
+    query?: string;
+    /** `sha256:<hex>` of the request body; only compared with `--mock-match-body` */
+    bodyHash?: string;
+  };
+  response: {
+    status: number;
+    headers?: Headers;
+    /** JSON bodies are stored parsed, so fixtures can be edited by hand */
+    json?: unknown;
+    body?: string;
+    /** `base64` for binary or compressed bodies */
+    encoding?: 'base64';
+  };
+  /** ISO timestamp of the recording */
+  recordedAt?: string;
+}
+
+/** A fixture that matched a request */
+export interface FixtureMatch {
+  /** File name within the fixture directory */
+  file: string;
+  response: BufferedResponse;
+}
+
+/** Response headers that describe one particular delivery rather than the content */
+const VOLATILE_HEADERS = ['content-length', 'transfer-encoding', 'connection', 'keep-alive', 'date'];
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** Mock settings as written on the command line, in a config file or passed to `tunnrl()` */
+export interface MockInput {
+  dir: string;
+  mode?: string;
+  fallback?: string;
+  matchBody?: boolean;
+}
+
+/** Validate and fill in defaults; throws on the first bad value */
+export function parseMockOptions(input: MockInput): MockOptions {
+  const mode = input.mode ?? 'replay';
+  if (mode !== 'record' && mode !== 'replay') throw new Error(`Mock mode must be "record" or "replay", not "${mode}"`);
+  const fallback = input.fallback ?? '404';
+  if (fallback !== '404' && fallback !== 'live') throw new Error(`Mock fallback must be "404" or "live", not "${fallback}"`);
+  return { dir: input.dir, mode, fallback, matchBody: input.matchBody ?? false };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** `/users?b=2&a=1` → path `/users`, query `a=1&b=2`, so parameter order never matters */
+function splitPath(full: string): { path: string; query: string } {
+  const q = full.indexOf('?');
+  if (q === -1) return { path: full, query: '' };
+  const params = new URLSearchParams(full.slice(q + 1));
+  params.sort();
+  return { path: full.slice(0, q), query: params.toString() };
+}
+
+export function bodyHash(body: Buffer): string {
+  return `sha256:${crypto.createHash('sha256').update(body).digest('hex')}`;
+}
+
+function matchKey(method: string, urlPath: string, query: string, hash?: string): string {
+  const key = `${method.toUpperCase()} ${urlPath}${query ? `?${query}` : ''}`;
+  return hash ? `${key} ${hash}` : key;
+}
+
+/** `GET-api-users-1a2b3c4d.json`: readable, and distinct for requests that match differently */
+function fileNameFor(method: string, urlPath: string, key: string): string {
+  const slug = urlPath.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').slice(0, 60);
+  const digest = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return `${method.toUpperCase()}${slug ? `-${slug}` : ''}-${digest}.json`;
+}
+
+function fixtureBody(fixture: Fixture): Buffer {
+  const { json, body, encoding } = fixture.response;
+  if (json !== undefined) return Buffer.from(JSON.stringify(json));
+  return Buffer.from(body ?? '', encoding === 'base64' ? 'base64' : 'utf8');
+}
+
+/** Store JSON parsed, other text as text, and anything compressed or binary as base64 */
+function storeBody(body: Buffer, headers: Headers): Pick<Fixture['response'], 'json' | 'body' | 'encoding'> {
+  if (body.length === 0) return {};
+  const type = headerValue(headers, 'content-type');
+  if (!headerValue(headers, 'content-encoding')) {
+    if (/json/.test(type)) {
+      try {
+        return { json: JSON.parse(body.toString('utf8')) };
+      } catch { /* not actually JSON; store it as it came */ }
+    }
+    if (/^text\/|xml|javascript|x-www-form-urlencoded/.test(type)) return { body: body.toString('utf8') };
+  }
+  return { body: body.toString('base64'), encoding: 'base64' };
+}
+
+function checkFixture(raw: unknown, file: string): Fixture {
+  const fixture = raw as Fixture;
+  const ok = fixture && typeof fixture === 'object'
+    && typeof fixture.request?.method === 'string' && typeof fixture.request.path === 'string'
+    && typeof fixture.response?.status === 'number';
+  if (!ok) throw new Error(`${file}: a fixture needs request.method, request.path and response.status`);
+  return fixture;
+}
+
+// ─── Fixture store ───────────────────────────────────────────────────────────
+
+/**
+ * The fixtures in one directory, indexed by what they match. Requests match
+ * on method, path and query string (in any parameter order), plus the body
+ * hash with `matchBody`; a fixture without a `bodyHash` then matches any body.
+ * Files are read once at startup; fixtures recorded since are added as they
+ * are written.
+ */
+export class FixtureStore {
+  private _fixtures = new Map<string, { file: string; fixture: Fixture }>();
+
+  constructor(readonly options: MockOptions) {
+    let files: string[] = [];
+    try {
+      files = fs.readdirSync(options.dir).filter((name) => name.endsWith('.json')).sort();
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT' || options.mode === 'replay') {
+        throw new Error(`Cannot read fixtures from ${options.dir}: ${(err as NodeJS.ErrnoException).code ?? (err as Error).message}`);
+      }
+    }
+    for (const file of files) {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(fs.readFileSync(path.join(options.dir, file), 'utf8'));
+      } catch (err) {
+        throw new Error(`${path.join(options.dir, file)}: ${(err as Error).message}`);
+      }
+      this._index(file, checkFixture(raw, path.join(options.dir, file)));
+    }
+  }
+
+  get size(): number {
+    return this._fixtures.size;
+  }
+
+  /** The fixture answering `request`, or null */
+  find(request: BufferedRequest): FixtureMatch | null {
+    const { path: urlPath, query } = splitPath(request.path);
+    const key = matchKey(request.method, urlPath, query);
+    const entry = (this.options.matchBody && this._fixtures.get(`${key} ${bodyHash(request.body)}`)) || this._fixtures.get(key);
+    if (!entry) return null;
+    const headers = { ...entry.fixture.response.headers };
+    // Fixtures store JSON parsed, so a stored compression header would no longer be true
+    if (entry.fixture.response.json !== undefined) delete headers['content-encoding'];
+    return { file: entry.file, response: { status: entry.fixture.response.status, headers, body: fixtureBody(entry.fixture) } };
+  }
+
+  /**
+   * Save a completed exchange as a fixture, replacing any that matched the
+   * same request. Returns the file name, or null when the exchange is not
+   * worth keeping: failed, a gateway error, or with a body cut off at the
+   * capture limit.
+   */
+  save(exchange: Exchange): string | null {
+    const { request } = exchange;
+    const requestBody = Buffer.from(request.body, 'base64');
+    const complete = requestBody.length >= exchange.bytesIn && exchange.responseBody.length >= exchange.bytesOut;
+    if (exchange.error || !exchange.status || [502, 503, 504].includes(exchange.status) || !complete) return null;
+
+    const { path: urlPath, query } = splitPath(request.path);
+    const hash = bodyHash(requestBody);
+    const key = matchKey(request.method, urlPath, query, this.options.matchBody ? hash : undefined);
+    const headers: Headers = {};
+    for (const [name, val] of Object.entries(exchange.headers)) {
+      if (!VOLATILE_HEADERS.includes(name.toLowerCase())) headers[name] = val;
+    }
+    const fixture: Fixture = {
+      request: { method: request.method.toUpperCase(), path: urlPath, ...(query ? { query } : {}), bodyHash: hash },
+      response: { status: exchange.status, headers, ...storeBody(exchange.responseBody, exchange.headers) },
+      recordedAt: new Date().toISOString(),
+    };
+
+    const file = this._fixtures.get(key)?.file ?? fileNameFor(request.method, urlPath, key);
+    fs.mkdirSync(this.options.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.options.dir, file), `${JSON.stringify(fixture, null, 2)}\n`);
+    this._index(file, fixture);
+    return file;
+  }
+
+  private _index(file: string, fixture: Fixture): void {
+    const { method, path: urlPath, query, bodyHash: hash } = fixture.request;
+    const { query: sorted } = splitPath(`${urlPath}?${query ?? ''}`);
+    this._fixtures.set(matchKey(method, urlPath, sorted, this.options.matchBody ? hash : undefined), { file, fixture });
+  }
+}
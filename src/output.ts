@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Exchange, QueuedRequest, SocketInfo } from './forward';
+import type { ConnectionInfo } from './tcp';
+import type { Rejection } from './access';
+import type { Headers, RegisterErrorCode } from './protocol';
+import type { Verification } from './verify';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** `pretty` for people at a terminal, `json` for one event per line on stdout */
+export type OutputMode = 'pretty' | 'json';
+
+export const OUTPUT_MODES: OutputMode[] = ['pretty', 'json'];
+
+/**
+ * Everything a session reports, as written by `--output json` and
+ * `--log-file`. `tunnel` is the tunnel's name: its port, directory or name
+ * in the config file.
+ */
+export type SessionEvent =
+  | { type: 'connected'; tunnel: string; url: string; local: string }
+  | { type: 'reconnected'; tunnel: string; url: string; local: string; previousUrl?: string }
+  | { type: 'disconnected'; tunnel: string; code: number; reason: string }
+  | { type: 'reconnecting'; attempt: number; delay: number }
+  | {
+      type: 'request';
+      tunnel: string;
+      id: string;
+      method: string;
+      path: string;
+      /** 0 when no response came back */
+      status: number;
+      duration: number;
+      bytesIn: number;
+      bytesOut: number;
+      requestHeaders: Headers;
+      responseHeaders: Headers;
+      upstream?: string;
+      queued?: number;
+      attempts?: number;
+      error?: string;
+      verification?: Verification;
+      fixture?: string;
+    }
+  | { type: 'rejected'; tunnel: string; id: string; method: string; path: string; status: number; cause: Rejection['cause']; reason: string; remoteAddress: string }
+  | { type: 'queued'; tunnel: string; id: string; method: string; path: string; position: number; remoteAddress: string }
+  | { type: 'websocket-open'; tunnel: string; id: string; path: string; status: number; duration: number; upstream?: string }
+  | { type: 'websocket-close'; tunnel: string; id: string; path: string; code?: number; messagesIn: number; messagesOut: number; bytesIn: number; bytesOut: number; duration: number }
+  | { type: 'tcp-open'; tunnel: string; id: string; remoteAddress: string }
+  | { type: 'tcp-close'; tunnel: string; id: string; remoteAddress: string; bytesIn: number; bytesOut: number; duration: number; error?: string }
+  | { type: 'command-start'; command: string; pid?: number }
+  | { type: 'output'; stream: 'stdout' | 'stderr'; line: string }
+  | { type: 'command-exit'; code: number | null; signal: string | null }
+  /** Written again with `elapsed` (s) when the port is slow to open */
+  | { type: 'waiting'; tunnel: string; local: string; elapsed?: number }
+  | { type: 'draining'; pending: number }
+  | { type: 'warning'; tunnel?: string; message: string }
+  | { type: 'error'; tunnel?: string; message: string; code?: string; hint?: string; fatal: boolean }
+  | { type: 'exit'; code: number };
+
+/** Process exit codes, so scripts can tell why a session ended */
+export const EXIT_CODES = {
+  ok: 0,
+  /** Bad options, unreadable files, or anything else */
+  error: 1,
+  /** The relay lacks a feature the tunnel needs, e.g. TCP */
+  unsupported: 2,
+  /** The relay refused the auth token */
+  unauthorized: 3,
+  /** The subdomain is taken, reserved or invalid */
+  subdomain: 4,
+} as const;
+
+/** The exit code for a registration the relay refused */
+export function exitCodeFor(code: RegisterErrorCode | undefined): number {
+  switch (code) {
+    case 'unauthorized':
+      return EXIT_CODES.unauthorized;
+    case 'subdomain-invalid':
+    case 'subdomain-taken':
+    case 'subdomain-reserved':
+      return EXIT_CODES.subdomain;
+    default:
+      return EXIT_CODES.error;
+  }
+}
+
+// ─── Converting ──────────────────────────────────────────────────────────────
+
+export function requestEvent(tunnel: string, exchange: Exchange): SessionEvent {
+  const { request } = exchange;
+  return {
+    type: 'request',
+    tunnel,
+    id: request.requestId,
+    method: request.method,
+    path: request.path,
+    status: exchange.status,
+    duration: exchange.duration,
+    bytesIn: exchange.bytesIn,
+    bytesOut: exchange.bytesOut,
+    requestHeaders: request.headers,
+    responseHeaders: exchange.headers,
+    upstream: exchange.upstream,
+    queued: exchange.queued,
+    attempts: exchange.attempts,
+    error: exchange.error,
+    verification: exchange.verification,
+    fixture: exchange.fixture,
+  };
+}
+
+export function rejectedEvent(tunnel: string, rejection: Rejection): SessionEvent {
+  const { requestId, method, path, status, cause, reason, remoteAddress } = rejection;
+  return { type: 'rejected', tunnel, id: requestId, method: rejection.upgrade ? 'WS' : method, path, status, cause, reason, remoteAddress };
+}
+
+export function queuedEvent(tunnel: string, queued: QueuedRequest): SessionEvent {
+  const { requestId, method, path, position, remoteAddress } = queued;
+  return { type: 'queued', tunnel, id: requestId, method, path, position, remoteAddress };
+}
+
+export function socketEvent(tunnel: string, info: SocketInfo, closed: boolean): SessionEvent {
+  if (!closed) {
+    return { type: 'websocket-open', tunnel, id: info.requestId, path: info.path, status: info.status, duration: info.duration, upstream: info.upstream };
+  }
+  const { requestId, path, code, messagesIn, messagesOut, bytesIn, bytesOut, duration } = info;
+  return { type: 'websocket-close', tunnel, id: requestId, path, code, messagesIn, messagesOut, bytesIn, bytesOut, duration };
+}
+
+export function connectionEvent(tunnel: string, info: ConnectionInfo, closed: boolean): SessionEvent {
+  if (!closed) return { type: 'tcp-open', tunnel, id: info.requestId, remoteAddress: info.remoteAddress };
+  const { requestId, remoteAddress, bytesIn, bytesOut, duration, error } = info;
+  return { type: 'tcp-close', tunnel, id: requestId, remoteAddress, bytesIn, bytesOut, duration, error };
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Writes session events as newline-delimited JSON, each stamped with `time`:
+ * to stdout with `--output json`, and appended to `--log-file` whatever the
+ * output mode. File writes are synchronous, like the Recorder's, so the last
+ * events before an exit make it to disk.
+ */
+export class EventLog {
+  private _fd: number | null = null;
+
+  constructor(readonly stdout: boolean, readonly file?: string) {
+    if (file) this._fd = fs.openSync(file, 'a');
+  }
+
+  /** Whether anything is listening; lets callers skip building events */
+  get enabled(): boolean {
+    return this.stdout || this._fd !== null;
+  }
+
+  write(event: SessionEvent): void {
+    if (!this.enabled) return;
+    const line = `${JSON.stringify({ time: new Date().toISOString(), ...event })}\n`;
+    if (this.stdout) process.stdout.write(line);
+    if (this._fd !== null) fs.writeSync(this._fd, line);
+  }
+
+  close(): void {
+    if (this._fd === null) return;
+    fs.closeSync(this._fd);
+    this._fd = null;
+  }
+}
+
+/**
+ * Write the public URLs, one per line, for other steps of a script or CI job
+ * to pick up. Goes through a temporary file so readers never see half a URL.
+ */
+export function writeUrlFile(file: string, urls: string[]): void {
+  const temp = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.tmp`);
+  fs.writeFileSync(temp, urls.map((url) => `${url}\n`).join(''));
+  fs.renameSync(temp, file);
+}
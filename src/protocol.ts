@@ -0,0 +1,266 @@
+// ─── Wire protocol ───────────────────────────────────────────────────────────
+// Messages exchanged between the tunnrl client (CLI / Node API) and the relay
+// over the /register WebSocket. Shared by src/index.ts, src/api.ts and
+// src/server.ts so both ends of the tunnel agree on the shape of every frame.
+
+export type Headers = Record<string, string | string[]>;
+
+export interface ForwardedRequest {
+  type: 'request';
+  requestId: string;
+  method: string;
+  path: string;
+  headers: Headers;
+  body: string; // base64 — empty when streaming, the body follows as request-data frames
+}
+
+export interface ForwardedResponse {
+  type: 'response';
+  requestId: string;
+  status: number;
+  headers: Headers;
+  body: string; // base64
+}
+
+// ─── Streaming frames ────────────────────────────────────────────────────────
+// Used instead of a single buffered ForwardedResponse when both ends negotiated
+// the `stream` feature. Bodies travel as a series of data frames; every data
+// frame is acknowledged once the receiver has flushed it, and senders stop
+// reading once STREAM_WINDOW bytes are unacknowledged.
+
+export interface RequestData {
+  type: 'request-data';
+  requestId: string;
+  data: string; // base64
+}
+
+export interface RequestEnd {
+  type: 'request-end';
+  requestId: string;
+}
+
+/** The public caller went away — the client should abandon the local request */
+export interface RequestAbort {
+  type: 'request-abort';
+  requestId: string;
+}
+
+export interface ResponseStart {
+  type: 'response-start';
+  requestId: string;
+  status: number;
+  headers: Headers;
+}
+
+export interface ResponseData {
+  type: 'response-data';
+  requestId: string;
+  data: string; // base64
+}
+
+export interface ResponseEnd {
+  type: 'response-end';
+  requestId: string;
+  /** Set when the local response failed part-way; the relay resets the public connection */
+  error?: string;
+}
+
+/** Flow-control acknowledgement, sent in both directions */
+export interface StreamAck {
+  type: 'ack';
+  requestId: string;
+  bytes: number;
+}
+
+// ─── WebSocket passthrough ───────────────────────────────────────────────────
+// A public WebSocket upgrade on a tunnel URL is relayed as ws-open; the client
+// dials the local service and answers ws-opened (the relay then completes the
+// public handshake) or ws-rejected. Messages and closes flow both ways.
+
+export interface SocketOpen {
+  type: 'ws-open';
+  requestId: string;
+  path: string;
+  headers: Headers;
+  protocols: string[];
+}
+
+export interface SocketOpened {
+  type: 'ws-opened';
+  requestId: string;
+  /** Subprotocol the local service selected, if any */
+  protocol?: string;
+}
+
+export interface SocketRejected {
+  type: 'ws-rejected';
+  requestId: string;
+  status: number;
+}
+
+export interface SocketMessage {
+  type: 'ws-message';
+  requestId: string;
+  data: string; // base64
+  binary: boolean;
+}
+
+export interface SocketClose {
+  type: 'ws-close';
+  requestId: string;
+  code?: number;
+  reason?: string;
+}
+
+// ─── Raw TCP ─────────────────────────────────────────────────────────────────
+// A client that registers with TUNNEL_TYPE_HEADER: tcp gets a public host:port
+// instead of a subdomain. Each inbound connection is a stream of tcp-* frames
+// keyed by requestId, flow-controlled with the same `ack` frames as HTTP bodies.
+
+export interface TcpOpen {
+  type: 'tcp-open';
+  requestId: string;
+  remoteAddress: string;
+}
+
+export interface TcpData {
+  type: 'tcp-data';
+  requestId: string;
+  data: string; // base64
+}
+
+/** The sending side finished writing (half-close) */
+export interface TcpEnd {
+  type: 'tcp-end';
+  requestId: string;
+}
+
+export interface TcpClose {
+  type: 'tcp-close';
+  requestId: string;
+  error?: string;
+}
+
+/**
+ * Why a relay turned a registration away. Relays that predate error codes
+ * send only `message`.
+ */
+export type RegisterErrorCode =
+  | 'unauthorized'
+  | 'subdomain-invalid'
+  | 'subdomain-taken'
+  | 'subdomain-reserved';
+
+export type ServerMessage =
+  | { type: 'registered'; subdomain: string; url: string; features?: string[] }
+  | { type: 'error'; message: string; code?: RegisterErrorCode };
+
+/** Everything the relay sends to a client */
+export type ServerFrame =
+  | ServerMessage
+  | ForwardedRequest
+  | RequestData
+  | RequestEnd
+  | RequestAbort
+  | StreamAck
+  | SocketOpen
+  | SocketMessage
+  | SocketClose
+  | TcpOpen
+  | TcpData
+  | TcpEnd
+  | TcpClose;
+
+/** Everything a client sends to the relay */
+export type ClientMessage =
+  | ForwardedResponse
+  | ResponseStart
+  | ResponseData
+  | ResponseEnd
+  | StreamAck
+  | SocketOpened
+  | SocketRejected
+  | SocketMessage
+  | SocketClose
+  | TcpData
+  | TcpEnd
+  | TcpClose;
+
+// ─── Feature negotiation ─────────────────────────────────────────────────────
+// Clients list the features they support in a header on the /register
+// upgrade; the relay echoes back the subset it will use in `registered`.
+// Relays that predate negotiation send no `features`, and clients fall back
+// to one buffered ForwardedResponse per request. `binary` and `deflate`
+// change how frames are encoded on the wire; see src/framing.ts.
+
+export const FEATURES_HEADER = 'x-tunnrl-features';
+
+export const CLIENT_FEATURES = ['stream', 'ws', 'binary', 'deflate'];
+
+/** Features a TCP tunnel asks for; the relay answers with `tcp` plus those it supports */
+export const TCP_CLIENT_FEATURES = ['binary'];
+
+/** Selects the kind of tunnel on the /register upgrade: `http` (default) or `tcp` */
+export const TUNNEL_TYPE_HEADER = 'x-tunnrl-type';
+
+/** Subdomain the client would like; the relay assigns a random one when absent */
+export const SUBDOMAIN_HEADER = 'x-tunnrl-subdomain';
+
+/**
+ * Random id a client keeps for its whole lifetime. When a reconnecting
+ * client asks for a subdomain still held by a connection with the same
+ * session, the relay drops the stale connection instead of refusing.
+ */
+export const SESSION_HEADER = 'x-tunnrl-session';
+
+/** DNS label rules: lowercase letters, digits and inner hyphens, at most 63 chars */
+export function isValidSubdomain(name: string): boolean {
+  return /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(name);
+}
+
+export function parseFeatures(value: string | string[] | undefined): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : value ?? '';
+  return raw.split(',').map((f) => f.trim()).filter(Boolean);
+}
+
+/**
+ * Close codes that may be sent in a close frame. 1005/1006 and friends are
+ * reserved for reporting and must not be echoed to the other side.
+ */
+export function isSendableCloseCode(code: number | undefined): code is number {
+  if (code === undefined) return false;
+  return (code >= 1000 && code <= 1003) || (code >= 1007 && code <= 1014) || (code >= 3000 && code <= 4999);
+}
+
+/** Unacknowledged bytes allowed per stream before the sender pauses */
+export const STREAM_WINDOW = 1024 * 1024;
+
+// ─── Relay endpoint ──────────────────────────────────────────────────────────
+
+export const DEFAULT_SERVER = 'wss://tunnrl.dev/register';
+
+/**
+ * Normalise a user-supplied relay address into a /register WebSocket URL.
+ * Accepts full URLs (`wss://relay.example.com/register`), http(s) origins
+ * (`http://localhost:8080`) and bare hosts (`localhost:8080`).
+ */
+export function resolveServerUrl(server?: string): string {
+  const raw = server || process.env.TUNNRL_SERVER || DEFAULT_SERVER;
+  const withScheme = /^[a-z]+:\/\//i.test(raw) ? raw : `ws://${raw}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    throw new Error(`Invalid server URL: ${raw}`);
+  }
+
+  if (url.protocol === 'http:') url.protocol = 'ws:';
+  else if (url.protocol === 'https:') url.protocol = 'wss:';
+  else if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error(`Invalid server URL: ${raw} (expected ws://, wss://, http:// or https://)`);
+  }
+
+  if (url.pathname === '' || url.pathname === '/') url.pathname = '/register';
+  return url.toString();
+}
@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import type { ForwardedRequest, ForwardedResponse, Headers } from './protocol';
+import type { Exchange } from './forward';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One line of a `--record` file */
+export interface RecordedExchange {
+  /** ISO timestamp of when the request arrived */
+  startedAt: string;
+  duration: number;
+  request: ForwardedRequest;
+  response: ForwardedResponse;
+  /** Full response size; larger than the stored body when it was truncated */
+  bytesOut: number;
+  error?: string;
+}
+
+export interface ReplayFilter {
+  /** Methods to include, e.g. ['POST'] (default: all) */
+  methods?: string[];
+  /** Path glob, `*` matches any run of characters (default: all) */
+  path?: string;
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string; encoding?: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  comment?: string;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+export function headerValue(headers: Headers, name: string): string {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  if (!entry) return '';
+  return Array.isArray(entry[1]) ? entry[1].join(', ') : entry[1];
+}
+
+/** Undo content-encoding so compressed responses are readable; falls back to the raw bytes */
+export function decodeBody(body: Buffer, headers: Headers, truncated: boolean): Buffer {
+  const encoding = headerValue(headers, 'content-encoding').toLowerCase();
+  if (!encoding || truncated || body.length === 0) return body;
+  try {
+    if (encoding === 'gzip') return zlib.gunzipSync(body);
+    if (encoding === 'deflate') return zlib.inflateSync(body);
+    if (encoding === 'br') return zlib.brotliDecompressSync(body);
+  } catch { /* fall through */ }
+  return body;
+}
+
+function toHarHeaders(headers: Headers): HarHeader[] {
+  return Object.entries(headers).flatMap(([name, val]) =>
+    (Array.isArray(val) ? val : [val]).map((value) => ({ name, value }))
+  );
+}
+
+function fromHarHeaders(headers: HarHeader[]): Headers {
+  const out: Headers = {};
+  for (const { name, value } of headers) {
+    const key = name.toLowerCase();
+    const prior = out[key];
+    out[key] = prior === undefined ? value : ([] as string[]).concat(prior, value);
+  }
+  return out;
+}
+
+/** Text bodies are stored as text so the HAR stays readable; anything else as base64 */
+function harBody(body: Buffer, mimeType: string): { text: string; encoding?: string } {
+  const textual = /^text\/|json|xml|x-www-form-urlencoded|javascript/.test(mimeType);
+  return textual ? { text: body.toString('utf8') } : { text: body.toString('base64'), encoding: 'base64' };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+// ─── Recording ───────────────────────────────────────────────────────────────
+
+export function toRecord(exchange: Exchange): RecordedExchange {
+  const { request } = exchange;
+  const record: RecordedExchange = {
+    startedAt: new Date(Date.now() - exchange.duration).toISOString(),
+    duration: exchange.duration,
+    request,
+    response: {
+      type: 'response',
+      requestId: request.requestId,
+      status: exchange.status,
+      headers: exchange.headers,
+      body: exchange.responseBody.toString('base64'),
+    },
+    bytesOut: exchange.bytesOut,
+  };
+  if (exchange.error) record.error = exchange.error;
+  return record;
+}
+
+/**
+ * Appends every completed exchange to a newline-delimited JSON file as it
+ * happens. Writes are synchronous so nothing is lost when the CLI exits
+ * straight after a request.
+ */
+export class Recorder {
+  private _fd: number;
+
+  constructor(readonly file: string) {
+    this._fd = fs.openSync(file, 'a');
+  }
+
+  add(exchange: Exchange): void {
+    fs.writeSync(this._fd, `${JSON.stringify(toRecord(exchange))}\n`);
+  }
+
+  close(): void {
+    fs.closeSync(this._fd);
+  }
+}
+
+/** Read a `--record` file, or a HAR file exported from one (or from a browser) */
+export function readRecording(file: string): RecordedExchange[] {
+  const raw = fs.readFileSync(file, 'utf8');
+
+  const trimmed = raw.trimStart();
+  if (trimmed.startsWith('{') && trimmed.includes('"log"')) {
+    try {
+      const har = JSON.parse(raw) as Har;
+      if (har.log && Array.isArray(har.log.entries)) return fromHar(har);
+    } catch { /* not a single JSON document — treat as NDJSON */ }
+  }
+
+  return raw
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as RecordedExchange;
+      } catch {
+        throw new Error(`${file}:${i + 1}: not a valid recording line`);
+      }
+    });
+}
+
+export function filterRecording(records: RecordedExchange[], filter: ReplayFilter): RecordedExchange[] {
+  const methods = filter.methods?.map((m) => m.toUpperCase());
+  const pathRe = filter.path ? globToRegExp(filter.path) : null;
+  return records.filter(({ request }) => {
+    if (methods && !methods.includes(request.method.toUpperCase())) return false;
+    if (pathRe && !pathRe.test(request.path.split('?')[0]) && !pathRe.test(request.path)) return false;
+    return true;
+  });
+}
+
+// ─── HAR 1.2 ─────────────────────────────────────────────────────────────────
+
+export function toHar(records: RecordedExchange[], version = '1.0.0'): Har {
+  const entries = records.map((record): HarEntry => {
+    const { request, response } = record;
+    const proto = headerValue(request.headers, 'x-forwarded-proto') || 'https';
+    const host = headerValue(request.headers, 'x-forwarded-host') || headerValue(request.headers, 'host') || 'localhost';
+    const url = new URL(request.path, `${proto}://${host}`);
+
+    const requestBody = Buffer.from(request.body, 'base64');
+    const requestType = headerValue(request.headers, 'content-type');
+    const stored = Buffer.from(response.body, 'base64');
+    const responseBody = decodeBody(stored, response.headers, stored.length < record.bytesOut);
+    const responseType = headerValue(response.headers, 'content-type');
+
+    const entry: HarEntry = {
+      startedDateTime: record.startedAt,
+      time: record.duration,
+      request: {
+        method: request.method,
+        url: url.toString(),
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(request.headers),
+        queryString: Array.from(url.searchParams, ([name, value]) => ({ name, value })),
+        headersSize: -1,
+        bodySize: requestBody.length,
+      },
+      response: {
+        status: response.status,
+        statusText: http.STATUS_CODES[response.status] ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarHeaders(response.headers),
+        content: { size: Math.max(responseBody.length, record.bytesOut), mimeType: responseType, ...harBody(responseBody, responseType) },
+        redirectURL: headerValue(response.headers, 'location'),
+        headersSize: -1,
+        bodySize: record.bytesOut,
+      },
+      cache: {},
+      timings: { send: 0, wait: record.duration, receive: 0 },
+    };
+    if (requestBody.length > 0) {
+      entry.request.postData = { mimeType: requestType, ...harBody(requestBody, requestType) };
+    }
+    if (record.error) entry.comment = record.error;
+    return entry;
+  });
+
+  return { log: { version: '1.2', creator: { name: 'tunnrl', version }, entries } };
+}
+
+export function fromHar(har: Har): RecordedExchange[] {
+  return har.log.entries.map((entry, i): RecordedExchange => {
+    const url = new URL(entry.request.url);
+    const post = entry.request.postData;
+    const content = entry.response.content;
+    const requestId = `har-${i}`;
+    return {
+      startedAt: entry.startedDateTime,
+      duration: entry.time,
+      request: {
+        type: 'request',
+        requestId,
+        method: entry.request.method,
+        path: `${url.pathname}${url.search}`,
+        headers: fromHarHeaders(entry.request.headers),
+        body: post?.text ? Buffer.from(post.text, post.encoding === 'base64' ? 'base64' : 'utf8').toString('base64') : '',
+      },
+      response: {
+        type: 'response',
+        requestId,
+        status: entry.response.status,
+        headers: fromHarHeaders(entry.response.headers),
+        body: content.text ? Buffer.from(content.text, content.encoding === 'base64' ? 'base64' : 'utf8').toString('base64') : '',
+      },
+      bytesOut: content.size,
+    };
+  });
+}
@@ -0,0 +1,178 @@
+import type { Headers } from './protocol';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** How long tunnrl waits on a slow local service, and how hard it tries to reach one that is down */
+export interface Resilience {
+  /** ms to wait for the local service to start answering; 504 after that */
+  timeout: number;
+  /** Times to retry an idempotent request the service refused, backing off in between */
+  retries: number;
+  /** ms to keep trying requests of any method while the service refuses connections */
+  hold: number;
+}
+
+/** What tunnrl found when it had to answer for the local service */
+export type UpstreamState = 'down' | 'broken' | 'tls' | 'timeout';
+
+/** Why the local service gave no response, for the error page */
+export interface UpstreamError {
+  state: UpstreamState;
+  /** One sentence on what went wrong, e.g. `Could not connect to localhost:3000` */
+  message: string;
+  /** `host:port` of the local service */
+  upstream: string;
+  /** Connections tried, counting the first */
+  attempts: number;
+  /** ms from the first try to giving up */
+  waited: number;
+}
+
+export const DEFAULT_RESILIENCE: Resilience = { timeout: 25_000, retries: 0, hold: 0 };
+
+/** Methods the HTTP spec lets a client send again without changing the outcome */
+const IDEMPOTENT = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+
+/** The first retry waits this long, doubling each time up to RETRY_MAX */
+const RETRY_BASE = 250;
+const RETRY_MAX = 4000;
+
+/** How often a held request tries the local port again */
+const HOLD_INTERVAL = 500;
+
+/** Seconds before an error page for a service that is down reloads itself */
+const REFRESH_AFTER = 5;
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** As written on the command line or in a config file: durations in seconds */
+export interface ResilienceInput {
+  timeout?: string | number;
+  retries?: string | number;
+  hold?: string | number;
+}
+
+function parseSeconds(raw: string | number, what: string, allowZero: boolean): number {
+  const value = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`${what} must be a ${allowZero ? 'non-negative' : 'positive'} number of seconds`);
+  }
+  return Math.round(value * 1000);
+}
+
+/** Validate and convert to ms, filling in defaults; throws on the first bad value */
+export function parseResilience(input: ResilienceInput): Resilience {
+  const resilience = { ...DEFAULT_RESILIENCE };
+  if (input.timeout !== undefined) resilience.timeout = parseSeconds(input.timeout, 'The timeout', false);
+  if (input.hold !== undefined) resilience.hold = parseSeconds(input.hold, 'The hold time', true);
+  if (input.retries !== undefined) {
+    const retries = typeof input.retries === 'number' ? input.retries : Number(input.retries);
+    if (!Number.isInteger(retries) || retries < 0) throw new Error('Retries must be a whole number of at least 0');
+    resilience.retries = retries;
+  }
+  return resilience;
+}
+
+/** `timeout 60s + 3 retries + hold 30s`, leaving out settings at their defaults; empty when all are */
+export function describeResilience(resilience: Resilience): string {
+  const parts: string[] = [];
+  if (resilience.timeout !== DEFAULT_RESILIENCE.timeout) parts.push(`timeout ${resilience.timeout / 1000}s`);
+  if (resilience.retries > 0) parts.push(`${resilience.retries} ${resilience.retries === 1 ? 'retry' : 'retries'}`);
+  if (resilience.hold > 0) parts.push(`hold ${resilience.hold / 1000}s`);
+  return parts.join(' + ');
+}
+
+// ─── Retrying ────────────────────────────────────────────────────────────────
+
+/**
+ * After the local service refused a connection: ms to wait before trying
+ * again, or null to give up. A refused connection never reached the service,
+ * so holding is safe for any method; plain retries stick to idempotent ones.
+ * Retries start once the hold is over: `retried` counts only the retries made
+ * since, not the tries during the hold. `waited` is the ms since the first try.
+ */
+export function retryDelay(resilience: Resilience, method: string, retried: number, waited: number): number | null {
+  if (waited < resilience.hold) return Math.min(HOLD_INTERVAL, resilience.hold - waited);
+  if (retried < resilience.retries && IDEMPOTENT.includes(method.toUpperCase())) {
+    return Math.min(RETRY_BASE * 2 ** retried, RETRY_MAX);
+  }
+  return null;
+}
+
+// ─── Error pages ─────────────────────────────────────────────────────────────
+
+const TITLES: Record<UpstreamState, string> = {
+  down: 'Local service not running',
+  broken: 'Local service closed the connection',
+  tls: 'TLS connection to the local service failed',
+  timeout: 'Local service took too long',
+};
+
+const EXPLANATIONS: Record<UpstreamState, string> = {
+  down: 'The tunnel is up, but nothing is accepting connections on {upstream}. If the service is restarting, this page reloads itself in a few seconds.',
+  broken: 'The tunnel is up and reached {upstream}, but the connection closed before a response came back. The service may have crashed or restarted mid-request.',
+  tls: 'The tunnel is up and reached {upstream}, but could not set up HTTPS with it.',
+  timeout: 'The tunnel is up and {upstream} accepted the request, but did not start a response in time.',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function headerValue(headers: Headers, name: string): string {
+  const val = headers[name];
+  return (Array.isArray(val) ? val.join(',') : val) ?? '';
+}
+
+function renderPage(status: number, reason: string, err: UpstreamError): string {
+  const tries = err.attempts > 1 ? `<p class="muted">Tried ${err.attempts} times over ${(err.waited / 1000).toFixed(1)}s.</p>\n` : '';
+  const refresh = err.state === 'down' ? `<meta http-equiv="refresh" content="${REFRESH_AFTER}">\n` : '';
+  const explanation = escapeHtml(EXPLANATIONS[err.state]).replace('{upstream}', `<code>${escapeHtml(err.upstream)}</code>`);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${refresh}<title>${status} ${escapeHtml(reason)} · tunnrl</title>
+<style>
+  body { font: 16px/1.5 system-ui, sans-serif; color: #222; background: #f6f6f4; margin: 0; }
+  main { max-width: 36rem; margin: 12vh auto; padding: 0 1.5rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 .75rem; }
+  .status { color: #b3261e; font-weight: 600; letter-spacing: .05em; }
+  code { background: #e8e8e4; padding: .1em .35em; border-radius: 4px; }
+  .muted { color: #777; font-size: .9rem; }
+</style>
+</head>
+<body>
+<main>
+<p class="status">${status} ${escapeHtml(reason)}</p>
+<h1>${escapeHtml(TITLES[err.state])}</h1>
+<p>${explanation}</p>
+<p class="muted">${escapeHtml(err.message)}</p>
+${tries}<p class="muted">This page comes from tunnrl, not from your app.</p>
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * The response tunnrl sends in place of the local service's: an HTML page
+ * for browsers (anything that accepts text/html), JSON for everything else.
+ */
+export function errorResponse(err: UpstreamError, requestHeaders: Headers): { status: number; headers: Headers; body: Buffer } {
+  const status = err.state === 'timeout' ? 504 : 502;
+  const reason = status === 504 ? 'Gateway Timeout' : 'Bad Gateway';
+  const headers: Headers = { 'cache-control': 'no-store' };
+  let body: Buffer;
+  if (headerValue(requestHeaders, 'accept').includes('text/html')) {
+    headers['content-type'] = 'text/html; charset=utf-8';
+    body = Buffer.from(renderPage(status, reason, err));
+  } else {
+    headers['content-type'] = 'application/json';
+    const { message, upstream, state, attempts } = err;
+    body = Buffer.from(JSON.stringify({ error: reason, message, upstream, state, ...(attempts > 1 ? { attempts } : {}) }));
+  }
+  headers['content-length'] = String(body.length);
+  return { status, headers, body };
+}
@@ -0,0 +1,170 @@
+import type { Headers } from './protocol';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** `set` replaces any existing value, `add` appends another one, `remove` drops the header */
+export interface HeaderRule {
+  action: 'add' | 'set' | 'remove';
+  name: string;
+  value?: string;
+}
+
+export interface RewriteOptions {
+  /** Applied to every request before it is sent to the local service */
+  requestHeaders?: HeaderRule[];
+  /** Applied to every response before it goes back to the caller */
+  responseHeaders?: HeaderRule[];
+  /** Send the public Host header instead of `localHost:localPort` */
+  preserveHost?: boolean;
+  /** Add permissive CORS headers and answer preflight requests */
+  cors?: boolean;
+}
+
+/** Response sent without contacting the local service */
+export interface DirectResponse {
+  status: number;
+  headers: Headers;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** Parse `set X-Env: dev`, `add Vary: Origin` or `remove Cookie` */
+export function parseHeaderRule(spec: string): HeaderRule {
+  const match = /^\s*(add|set|remove)\s+([^:\s]+)\s*(?::\s*(.*))?$/i.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid header rule "${spec}": expected "set Name: value", "add Name: value" or "remove Name"`);
+  }
+  const action = match[1].toLowerCase() as HeaderRule['action'];
+  const value = match[3];
+  if (action !== 'remove' && value === undefined) {
+    throw new Error(`Invalid header rule "${spec}": ${action} needs a value ("${action} ${match[2]}: value")`);
+  }
+  return action === 'remove' ? { action, name: match[2] } : { action, name: match[2], value };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const LOOPBACK = ['localhost', '127.0.0.1', '[::1]', '::1', '0.0.0.0'];
+
+function first(headers: Headers, name: string): string {
+  const val = headers[name];
+  return Array.isArray(val) ? val[0] ?? '' : val ?? '';
+}
+
+function applyRules(headers: Headers, rules: HeaderRule[]): Headers {
+  const out = { ...headers };
+  for (const rule of rules) {
+    const key = rule.name.toLowerCase();
+    // Header names may arrive in any case; treat them as one
+    for (const existing of Object.keys(out)) {
+      if (existing !== key && existing.toLowerCase() === key) {
+        out[key] = ([] as string[]).concat(out[key] ?? [], out[existing]);
+        delete out[existing];
+      }
+    }
+    if (rule.action === 'remove') delete out[key];
+    else if (rule.action === 'set') out[key] = rule.value ?? '';
+    else out[key] = out[key] === undefined ? rule.value ?? '' : ([] as string[]).concat(out[key], rule.value ?? '');
+  }
+  return out;
+}
+
+/** The origin callers used, from the x-forwarded-* headers the relay adds */
+function publicOrigin(request: Headers): { proto: string; host: string } | null {
+  const host = first(request, 'x-forwarded-host') || first(request, 'host');
+  if (!host) return null;
+  return { proto: first(request, 'x-forwarded-proto') || 'https', host };
+}
+
+function isLocalOrigin(url: URL, localHost: string, localPort: number): boolean {
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+  if (port !== String(localPort)) return false;
+  const host = url.hostname.toLowerCase();
+  return host === localHost.toLowerCase() || LOOPBACK.includes(host);
+}
+
+// ─── Rewriter ────────────────────────────────────────────────────────────────
+
+/**
+ * Adjusts requests on their way to the local service and responses on their
+ * way back. Absolute `Location` URLs and `Set-Cookie` domains that point at
+ * the local origin are always rewritten to the public tunnel origin, so
+ * redirects and logins keep working through the tunnel.
+ */
+export class Rewriter {
+  constructor(private _options: RewriteOptions = {}) {}
+
+  /** Answer CORS preflights directly when `cors` is on; null otherwise */
+  preflight(method: string, request: Headers): DirectResponse | null {
+    if (!this._options.cors || method.toUpperCase() !== 'OPTIONS') return null;
+    const requestedMethod = first(request, 'access-control-request-method');
+    if (!requestedMethod) return null;
+
+    const headers: Headers = {
+      ...this._corsHeaders(request),
+      'access-control-allow-methods': 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS',
+      'access-control-max-age': '86400',
+      'content-length': '0',
+    };
+    const requestedHeaders = first(request, 'access-control-request-headers');
+    if (requestedHeaders) headers['access-control-allow-headers'] = requestedHeaders;
+    return { status: 204, headers };
+  }
+
+  /**
+   * Headers to send to the local service. `outgoing` already has hop-by-hop
+   * headers removed and `host` pointed at the local service.
+   */
+  request(original: Headers, outgoing: Headers): Headers {
+    let headers = outgoing;
+    if (this._options.preserveHost) {
+      const origin = publicOrigin(original);
+      if (origin) headers = { ...headers, host: origin.host };
+    }
+    return applyRules(headers, this._options.requestHeaders ?? []);
+  }
+
+  /** Headers to send back to the caller for a response from `localHost:localPort` */
+  response(headers: Headers, request: Headers, localHost: string, localPort: number): Headers {
+    let out = { ...headers };
+    const origin = publicOrigin(request);
+
+    if (origin) {
+      const location = first(out, 'location');
+      if (location) {
+        try {
+          const url = new URL(location);
+          if (isLocalOrigin(url, localHost, localPort)) {
+            out['location'] = `${origin.proto}://${origin.host}${url.pathname}${url.search}${url.hash}`;
+          }
+        } catch { /* relative Location — already correct */ }
+      }
+
+      const cookies = out['set-cookie'];
+      if (cookies !== undefined) {
+        const publicHost = origin.host.replace(/:\d+$/, '');
+        const local = [localHost.toLowerCase(), ...LOOPBACK];
+        out['set-cookie'] = ([] as string[]).concat(cookies).map((cookie) =>
+          cookie.replace(/;\s*domain=\.?([^;]*)/i, (attr, domain: string) =>
+            local.includes(domain.trim().toLowerCase()) ? `; Domain=${publicHost}` : attr)
+        );
+      }
+    }
+
+    if (this._options.cors) {
+      const cors = this._corsHeaders(request);
+      const vary = first(out, 'vary');
+      out = { ...out, ...cors };
+      if (vary && cors['vary']) out['vary'] = `${vary}, ${cors['vary']}`;
+    }
+    return applyRules(out, this._options.responseHeaders ?? []);
+  }
+
+  private _corsHeaders(request: Headers): Headers {
+    const origin = first(request, 'origin');
+    // Credentialed requests need the exact origin echoed back rather than `*`
+    return origin
+      ? { 'access-control-allow-origin': origin, 'access-control-allow-credentials': 'true', vary: 'Origin' }
+      : { 'access-control-allow-origin': '*' };
+  }
+}
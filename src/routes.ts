@@ -0,0 +1,197 @@
+import type { Duplex } from 'stream';
+import type { Headers } from './protocol';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A local service requests can be sent to */
+export interface Upstream {
+  host: string;
+  port: number;
+  /** Speak HTTPS (and WSS) to it */
+  secure?: boolean;
+  /** Dial an in-process server instead of host:port */
+  connect?: () => Duplex;
+  /** Shown in logs instead of host:port */
+  name?: string;
+}
+
+/**
+ * Sends requests whose public host and path match to `upstream`. Patterns
+ * end in `*` to match a prefix (`/api/*` matches `/api` and `/api/users`);
+ * host patterns may start with `*.`. Omitted patterns match everything.
+ */
+export interface RouteRule {
+  host?: string;
+  path?: string;
+  upstream: Upstream;
+  /** Remove the matched path prefix before forwarding (`/api/users` → `/users`) */
+  stripPrefix?: boolean;
+}
+
+export interface RouteMatch {
+  upstream: Upstream;
+  /** Path to request from the upstream, after any prefix stripping */
+  path: string;
+  /** The rule that matched; unset when the request went to the fallback */
+  rule?: RouteRule;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * `4000`, `127.0.0.1:4000`, `http://127.0.0.1:4000` or `https://localhost:8443`.
+ * With a scheme the port may be left out (80 / 443).
+ */
+export function parseUpstream(raw: string | number, defaultHost = 'localhost'): Upstream {
+  const text = String(raw).trim().replace(/\/+$/, '');
+  const scheme = /^([a-z]+):\/\//i.exec(text)?.[1].toLowerCase();
+  const rest = scheme ? text.slice(scheme.length + 3) : text;
+  const secure = scheme === 'https' || scheme === 'wss';
+  const match = scheme
+    ? /^(\[[^\]]+\]|[^:/]+)(?::(\d+))?$/.exec(rest)
+    : /^(?:(\[[^\]]+\]|[^:]+):)?(\d+)$/.exec(rest);
+  const port = match?.[2] ? parseInt(match[2], 10) : secure ? 443 : scheme ? 80 : NaN;
+  if (!match || (scheme && !['http', 'https', 'ws', 'wss'].includes(scheme)) || !(port >= 1 && port <= 65535)) {
+    throw new Error(`Invalid upstream "${raw}": expected a port, host:port or http(s)://host:port`);
+  }
+  if (!scheme && match[1] === undefined) return localUpstream(defaultHost, port);
+  return secure ? { host: match[1], port, secure } : { host: match[1], port };
+}
+
+/**
+ * The local service given as `--host` plus a port. `host` may carry a
+ * scheme (`https://localhost`) to make the upstream HTTPS.
+ */
+export function localUpstream(host: string, port: number): Upstream {
+  const scheme = /^([a-z]+):\/\//i.exec(host)?.[1].toLowerCase();
+  if (!scheme) return { host, port };
+  return parseUpstream(`${host.replace(/(:\d+)?\/*$/, '')}:${port}`);
+}
+
+/**
+ * Parse the CLI form of a route: `[host][/path] -> upstream [strip]`, e.g.
+ * `/api/* -> 4000 strip` or `admin.example.com -> localhost:8000`.
+ */
+export function parseRoute(spec: string, defaultHost = 'localhost'): RouteRule {
+  const [left, right] = spec.split('->').map((s) => s.trim());
+  if (!left || !right) {
+    throw new Error(`Invalid route "${spec}": expected "<path or host> -> <upstream>"`);
+  }
+
+  const [target, ...flags] = right.split(/\s+/);
+  const unknown = flags.filter((f) => f !== 'strip');
+  if (unknown.length > 0) throw new Error(`Invalid route "${spec}": unknown flag "${unknown[0]}"`);
+
+  const rule: RouteRule = { upstream: parseUpstream(target, defaultHost) };
+  if (flags.includes('strip')) rule.stripPrefix = true;
+
+  if (left !== '*') {
+    const slash = left.indexOf('/');
+    const host = slash === -1 ? left : left.slice(0, slash);
+    const path = slash === -1 ? '' : left.slice(slash);
+    if (host) rule.host = host;
+    if (path) rule.path = path;
+  }
+  validateRule(rule, spec);
+  return rule;
+}
+
+function validateRule(rule: RouteRule, label: string): void {
+  if (rule.path !== undefined && (!rule.path.startsWith('/') || rule.path.slice(0, -1).includes('*'))) {
+    throw new Error(`Invalid route "${label}": paths start with / and may only end in *`);
+  }
+  if (rule.host !== undefined && rule.host.slice(1).includes('*')) {
+    throw new Error(`Invalid route "${label}": hosts may only start with *.`);
+  }
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+function publicHost(headers: Headers): string {
+  const raw = headers['x-forwarded-host'] ?? headers['host'] ?? '';
+  const host = Array.isArray(raw) ? raw[0] ?? '' : raw;
+  return host.replace(/:\d+$/, '').toLowerCase();
+}
+
+function matchHost(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p === '*') return true;
+  if (p.startsWith('*.')) return host.endsWith(p.slice(1));
+  return host === p;
+}
+
+/** Returns the matched prefix, or null when the path does not match */
+function matchPath(pattern: string, pathname: string): string | null {
+  if (pattern.endsWith('/*')) {
+    const base = pattern.slice(0, -2);
+    return pathname === base || pathname.startsWith(`${base}/`) ? base : null;
+  }
+  if (pattern.endsWith('*')) {
+    const base = pattern.slice(0, -1);
+    return pathname.startsWith(base) ? base : null;
+  }
+  return pathname === pattern ? pattern : null;
+}
+
+// ─── Router ──────────────────────────────────────────────────────────────────
+
+/**
+ * Picks the local service for each request. Rules are tried in order and
+ * the first match wins; requests no rule matches go to `fallback`.
+ */
+export class Router {
+  constructor(
+    readonly rules: RouteRule[],
+    readonly fallback: Upstream | null
+  ) {
+    rules.forEach((rule, i) => validateRule(rule, `#${i + 1}`));
+  }
+
+  /** True when requests can go to more than one upstream */
+  get routed(): boolean {
+    return this.rules.length > 0;
+  }
+
+  resolve(path: string, headers: Headers): RouteMatch | null {
+    const queryAt = path.indexOf('?');
+    const pathname = queryAt === -1 ? path : path.slice(0, queryAt);
+    const query = queryAt === -1 ? '' : path.slice(queryAt);
+    const host = publicHost(headers);
+
+    for (const rule of this.rules) {
+      if (rule.host && !matchHost(rule.host, host)) continue;
+      const prefix = rule.path ? matchPath(rule.path, pathname) : '';
+      if (prefix === null) continue;
+
+      if (!rule.stripPrefix || !prefix) return { upstream: rule.upstream, path, rule };
+      const rest = pathname.slice(prefix.length);
+      const stripped = rest.startsWith('/') ? rest : `/${rest}`;
+      return { upstream: rule.upstream, path: `${stripped}${query}`, rule };
+    }
+
+    return this.fallback ? { upstream: this.fallback, path } : null;
+  }
+}
+
+/** A rule's patterns, e.g. `/api/*` or `admin.example.com/*`; `default` for the fallback */
+export function formatRule(rule: RouteRule | undefined): string {
+  if (!rule) return 'default';
+  return `${rule.host ?? ''}${rule.path ?? ''}` || '*';
+}
+
+/** `host:port`, as used for the Host header */
+export function hostPort(upstream: Upstream): string {
+  return `${upstream.host}:${upstream.port}`;
+}
+
+/** The host to open a socket to: IPv6 literals without their brackets */
+export function connectHost(upstream: Upstream): string {
+  return upstream.host.replace(/^\[(.*)\]$/, '$1');
+}
+
+/** For logs: `host:port`, or `https://host:port` for HTTPS upstreams */
+export function formatUpstream(upstream: Upstream): string {
+  if (upstream.name) return upstream.name;
+  if (upstream.connect) return 'in-process app';
+  return upstream.secure ? `https://${hostPort(upstream)}` : hostPort(upstream);
+}
@@ -0,0 +1,843 @@
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as net from 'net';
+import type { Duplex } from 'stream';
+import { randomBytes } from 'crypto';
+import WebSocket, { WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ClientMessage,
+  FEATURES_HEADER,
+  ForwardedResponse,
+  Headers,
+  RegisterErrorCode,
+  SESSION_HEADER,
+  STREAM_WINDOW,
+  SUBDOMAIN_HEADER,
+  ServerFrame,
+  TUNNEL_TYPE_HEADER,
+  isSendableCloseCode,
+  isValidSubdomain,
+  parseFeatures,
+} from './protocol';
+import { FrameEncoder, decodeFrame } from './framing';
+import { stripHopByHop } from './forward';
+import { safeEqual } from './access';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ServerOptions {
+  /** Port to listen on for both public HTTP traffic and /register clients */
+  port: number;
+  /** Interface to bind (default: 0.0.0.0) */
+  bind?: string;
+  /** Base domain tunnels are served under (default: localhost:<port>) */
+  domain?: string;
+  /** Advertise https:// tunnel URLs (set when TLS is terminated in front of the relay) */
+  secure?: boolean;
+  /** Maximum number of simultaneously registered tunnels (default: unlimited) */
+  maxTunnels?: number;
+  /** How long to wait for a client to answer a forwarded request, in ms (default: 30000) */
+  requestTimeout?: number;
+  /** Accept raw TCP tunnels (default: true) */
+  tcp?: boolean;
+  /** Inclusive range public TCP ports are allocated from (default: 20000-20999) */
+  tcpPortRange?: [number, number];
+  /** Tokens clients must present as `Authorization: Bearer <token>` to register (default: open relay) */
+  authTokens?: string[];
+  /** Subdomains only one auth token may claim, e.g. `{ 'acme-hooks': 's3cret' }` */
+  reserved?: Record<string, string>;
+  /** Send bodies as raw bytes to clients that support it, instead of base64 in JSON (default: true) */
+  binary?: boolean;
+  /** Deflate bodies for clients that support it; needs `binary` (default: true) */
+  compression?: boolean;
+}
+
+export interface TunnelEvent {
+  subdomain: string;
+  url: string;
+  remoteAddress: string;
+}
+
+export interface RelayRequestEvent {
+  subdomain: string;
+  method: string;
+  path: string;
+  status: number;
+  duration: number;
+  size: number;
+}
+
+export interface RelayConnectionEvent {
+  subdomain: string;
+  remoteAddress: string;
+  bytesIn: number;
+  bytesOut: number;
+  duration: number;
+}
+
+interface PendingRequest {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  startMs: number;
+  /** Cleared once the response head arrives */
+  timer: NodeJS.Timeout | null;
+  /** Request body bytes sent to the client and not yet acknowledged */
+  unacked: number;
+  size: number;
+}
+
+interface ProxiedSocket {
+  req: http.IncomingMessage;
+  socket: Duplex;
+  head: Buffer;
+  startMs: number;
+  /** Set once the public handshake completes */
+  ws: WebSocket | null;
+  timer: NodeJS.Timeout | null;
+}
+
+interface TcpConnection {
+  socket: net.Socket;
+  remoteAddress: string;
+  startMs: number;
+  /** Bytes sent to the client and not yet acknowledged */
+  unacked: number;
+  bytesIn: number;
+  bytesOut: number;
+}
+
+interface ClientState {
+  kind: 'http' | 'tcp';
+  subdomain: string;
+  url: string;
+  ws: WebSocket;
+  /** SESSION_HEADER sent at registration; lets the same client take the subdomain back */
+  session: string;
+  alive: boolean;
+  /** Client negotiated the `stream` feature */
+  streaming: boolean;
+  /** Client negotiated the `ws` feature */
+  websockets: boolean;
+  /** Encodes frames to this client as negotiated: JSON, binary, binary with deflate */
+  encoder: FrameEncoder;
+  pending: Map<string, PendingRequest>;
+  sockets: Map<string, ProxiedSocket>;
+  tcpServer: net.Server | null;
+  connections: Map<string, TcpConnection>;
+}
+
+/** Features this relay negotiates with HTTP tunnels; TCP tunnels get `tcp`, plus `binary` */
+const SERVER_FEATURES = ['stream', 'ws', 'binary', 'deflate'];
+
+const SUBDOMAIN_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+function randomSubdomain(length = 6): string {
+  const bytes = randomBytes(length);
+  let out = '';
+  for (const b of bytes) out += SUBDOMAIN_ALPHABET[b % SUBDOMAIN_ALPHABET.length];
+  return out;
+}
+
+function bearerToken(header: string | undefined): string {
+  const match = /^Bearer\s+(\S+)$/i.exec(header ?? '');
+  return match ? match[1] : '';
+}
+
+function stripPort(host: string): string {
+  return host.replace(/:\d+$/, '').toLowerCase();
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+  if (socket.writable) {
+    socket.write(`HTTP/1.1 ${status} ${http.STATUS_CODES[status] ?? ''}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+  }
+  socket.destroy();
+}
+
+/** Bind `server` to the first free port in [min, max] not already in `taken` */
+function listenOnFreePort(
+  server: net.Server,
+  bind: string,
+  [min, max]: [number, number],
+  taken: Set<number>
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let port = min;
+    const tryNext = () => {
+      while (taken.has(port) && port <= max) port++;
+      if (port > max) {
+        reject(new Error('No free TCP ports left on this relay'));
+        return;
+      }
+      const onError = (err: NodeJS.ErrnoException) => {
+        if (err.code !== 'EADDRINUSE') {
+          reject(err);
+          return;
+        }
+        port++;
+        tryNext();
+      };
+      server.once('error', onError);
+      server.listen(port, bind, () => {
+        server.off('error', onError);
+        resolve(port);
+      });
+    };
+    tryNext();
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const payload = Buffer.from(JSON.stringify(body));
+  res.writeHead(status, { 'content-type': 'application/json', 'content-length': payload.length });
+  res.end(payload);
+}
+
+/**
+ * Write a response head sent by a client. Returns false, writing nothing,
+ * when it cannot be used: a status Node rejects, a header name or value it
+ * rejects, or a head already written for this request.
+ */
+function writeClientHead(res: http.ServerResponse, status: unknown, headers: Headers | undefined): boolean {
+  if (res.headersSent || !Number.isInteger(status) || (status as number) < 100 || (status as number) > 999) return false;
+  try {
+    res.writeHead(status as number, stripHopByHop(headers ?? {}));
+    return true;
+  } catch {
+    // writeHead may have set some headers before throwing on a bad one
+    for (const name of res.getHeaderNames()) res.removeHeader(name);
+    return false;
+  }
+}
+
+// ─── Relay server ────────────────────────────────────────────────────────────
+
+/**
+ * Self-hostable counterpart to the tunnrl client. Accepts clients on
+ * `/register`, hands each one a subdomain and proxies public HTTP requests
+ * for that subdomain through the client's WebSocket as `ForwardedRequest`s.
+ *
+ * Clients registering with `x-tunnrl-type: tcp` get a public port instead,
+ * and every connection to it is relayed as a stream of tcp-* frames.
+ *
+ * Emits `tunnel-open` / `tunnel-close` (TunnelEvent), `request`
+ * (RelayRequestEvent), `connection` (RelayConnectionEvent) and `error`.
+ */
+export class RelayServer extends EventEmitter {
+  readonly options: Required<Omit<ServerOptions, 'maxTunnels'>> & { maxTunnels?: number };
+
+  /** Public TCP ports currently held by tunnels */
+  private _tcpPorts = new Set<number>();
+  private _http: http.Server;
+  private _wss: WebSocketServer;
+  private _proxyWss: WebSocketServer;
+  /** Subprotocol chosen by the local service, per public upgrade request */
+  private _chosenProtocols = new WeakMap<http.IncomingMessage, string>();
+  private _clients = new Map<string, ClientState>();
+  private _heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(options: ServerOptions) {
+    super();
+    this.options = {
+      port: options.port,
+      bind: options.bind ?? '0.0.0.0',
+      domain: options.domain ?? `localhost:${options.port}`,
+      secure: options.secure ?? false,
+      maxTunnels: options.maxTunnels,
+      requestTimeout: options.requestTimeout ?? 30_000,
+      tcp: options.tcp ?? true,
+      tcpPortRange: options.tcpPortRange ?? [20000, 20999],
+      authTokens: options.authTokens ?? [],
+      reserved: Object.fromEntries(
+        Object.entries(options.reserved ?? {}).map(([name, token]) => [name.toLowerCase(), token])
+      ),
+      binary: options.binary ?? true,
+      compression: options.compression ?? true,
+    };
+
+    this._http = http.createServer((req, res) => this._handleHttp(req, res));
+    this._wss = new WebSocketServer({ noServer: true });
+    this._proxyWss = new WebSocketServer({
+      noServer: true,
+      handleProtocols: (_protocols, req) => this._chosenProtocols.get(req) ?? false,
+    });
+
+    this._http.on('upgrade', (req, socket, head) => {
+      const subdomain = this._subdomainFor(req.headers.host);
+      if (subdomain) {
+        this._handleProxiedUpgrade(subdomain, req, socket, head);
+        return;
+      }
+      const pathname = new URL(req.url ?? '/', 'http://relay').pathname;
+      if (pathname !== '/register') {
+        socket.destroy();
+        return;
+      }
+      this._wss.handleUpgrade(req, socket, head, (ws) => this._handleClient(ws, req));
+    });
+  }
+
+  /** Number of currently registered tunnels */
+  get tunnelCount(): number {
+    return this._clients.size;
+  }
+
+  /** Start listening. Resolves once the port is bound. */
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._http.once('error', reject);
+      this._http.listen(this.options.port, this.options.bind, () => {
+        this._http.off('error', reject);
+        this._heartbeat = setInterval(() => this._checkHeartbeats(), 30_000);
+        resolve();
+      });
+    });
+  }
+
+  /** Disconnect every client and stop listening */
+  close(): Promise<void> {
+    if (this._heartbeat) clearInterval(this._heartbeat);
+    for (const client of this._clients.values()) client.ws.close(1001, 'Server shutting down');
+    return new Promise((resolve) => {
+      this._wss.close();
+      this._proxyWss.close();
+      this._http.close(() => resolve());
+      this._http.closeAllConnections();
+    });
+  }
+
+  // ── Client registration ────────────────────────────────────────────────────
+
+  private async _handleClient(ws: WebSocket, req: http.IncomingMessage): Promise<void> {
+    const remoteAddress = req.socket.remoteAddress ?? '';
+    const kind = req.headers[TUNNEL_TYPE_HEADER] === 'tcp' ? 'tcp' : 'http';
+
+    const authtoken = bearerToken(req.headers.authorization);
+    const session = typeof req.headers[SESSION_HEADER] === 'string' ? req.headers[SESSION_HEADER] : '';
+    const { authTokens, reserved } = this.options;
+
+    if (authTokens.length > 0 && !authTokens.some((token) => safeEqual(token, authtoken))) {
+      this._refuse(ws, authtoken
+        ? 'Invalid auth token'
+        : 'This relay requires an auth token', 'unauthorized');
+      return;
+    }
+
+    if (this.options.maxTunnels !== undefined && this._clients.size >= this.options.maxTunnels) {
+      this._refuse(ws, 'Server is at capacity, try again later');
+      return;
+    }
+
+    if (kind === 'tcp' && !this.options.tcp) {
+      this._refuse(ws, 'TCP tunnels are disabled on this relay');
+      return;
+    }
+
+    const requested = req.headers[SUBDOMAIN_HEADER];
+    let subdomain: string;
+    if (typeof requested === 'string' && requested) {
+      subdomain = requested.toLowerCase();
+      if (!isValidSubdomain(subdomain)) {
+        this._refuse(ws, `Invalid subdomain "${requested}": use lowercase letters, digits and hyphens`, 'subdomain-invalid');
+        return;
+      }
+      const owner = reserved[subdomain];
+      if (owner !== undefined && !safeEqual(owner, authtoken)) {
+        this._refuse(ws, `Subdomain "${subdomain}" is reserved and your auth token may not use it`, 'subdomain-reserved');
+        return;
+      }
+      const holder = this._clients.get(subdomain);
+      if (holder && session && holder.session === session) {
+        // The same client reconnecting before the relay noticed the old socket die
+        holder.ws.terminate();
+      } else if (holder) {
+        this._refuse(ws, `Subdomain "${subdomain}" is already in use`, 'subdomain-taken');
+        return;
+      }
+    } else {
+      subdomain = randomSubdomain();
+      while (this._clients.has(subdomain) || subdomain in reserved) subdomain = randomSubdomain();
+    }
+
+    const scheme = this.options.secure ? 'https' : 'http';
+    const offered = parseFeatures(req.headers[FEATURES_HEADER]);
+    const binary = this.options.binary && offered.includes('binary');
+    const compress = binary && this.options.compression && offered.includes('deflate') && kind === 'http';
+    const features = kind === 'tcp'
+      ? ['tcp', ...(binary ? ['binary'] : [])]
+      : offered.filter((f) => SERVER_FEATURES.includes(f) && (f !== 'binary' || binary) && (f !== 'deflate' || compress));
+
+    const client: ClientState = {
+      kind,
+      subdomain,
+      url: `${scheme}://${subdomain}.${this.options.domain}`,
+      ws,
+      session,
+      alive: true,
+      streaming: features.includes('stream'),
+      websockets: features.includes('ws'),
+      encoder: new FrameEncoder({ binary, compress }),
+      pending: new Map(),
+      sockets: new Map(),
+      tcpServer: null,
+      connections: new Map(),
+    };
+    this._clients.set(subdomain, client);
+
+    ws.on('pong', () => { client.alive = true; });
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      let msg: ClientMessage;
+      try {
+        msg = decodeFrame<ClientMessage>(data, isBinary);
+      } catch {
+        return;
+      }
+      this._handleClientMessage(client, msg);
+    });
+
+    ws.on('close', () => {
+      // A reconnect from the same session may already hold the subdomain again
+      if (this._clients.get(subdomain) === client) this._clients.delete(subdomain);
+      for (const [requestId, pending] of client.pending) {
+        if (pending.timer) clearTimeout(pending.timer);
+        client.pending.delete(requestId);
+        if (pending.res.headersSent) pending.res.destroy();
+        else sendJson(pending.res, 502, { error: 'Tunnel disconnected' });
+      }
+      for (const [requestId, proxied] of client.sockets) {
+        if (proxied.timer) clearTimeout(proxied.timer);
+        client.sockets.delete(requestId);
+        if (proxied.ws) proxied.ws.close(1001, 'Tunnel disconnected');
+        else rejectUpgrade(proxied.socket, 502);
+      }
+      this._closeTcp(client);
+      this.emit('tunnel-close', { subdomain, url: client.url, remoteAddress } as TunnelEvent);
+    });
+
+    ws.on('error', (err) => this.emit('error', err));
+
+    if (kind === 'tcp') {
+      try {
+        await this._openTcp(client);
+      } catch (err) {
+        this._refuse(ws, (err as Error).message);
+        return;
+      }
+      // The client may have gone away while the port was being bound
+      if (ws.readyState !== WebSocket.OPEN) {
+        this._closeTcp(client);
+        return;
+      }
+    }
+
+    // Always JSON: the client only learns the framing from this message
+    this._send(client, { type: 'registered', subdomain, url: client.url, features });
+    this.emit('tunnel-open', { subdomain, url: client.url, remoteAddress } as TunnelEvent);
+  }
+
+  private _checkHeartbeats(): void {
+    for (const client of this._clients.values()) {
+      if (!client.alive) {
+        client.ws.terminate();
+        continue;
+      }
+      client.alive = false;
+      client.ws.ping();
+    }
+  }
+
+  private _send(client: ClientState, msg: ServerFrame, cb?: () => void): void {
+    if (client.ws.readyState === WebSocket.OPEN) client.ws.send(client.encoder.encode(msg), cb);
+  }
+
+  /** Turn a registration away with an error the client can show */
+  private _refuse(ws: WebSocket, message: string, code?: RegisterErrorCode): void {
+    const msg: ServerFrame = code ? { type: 'error', message, code } : { type: 'error', message };
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+    ws.close();
+  }
+
+  private _handleClientMessage(client: ClientState, msg: ClientMessage): void {
+    switch (msg.type) {
+      case 'ws-opened':
+      case 'ws-rejected':
+      case 'ws-message':
+      case 'ws-close':
+        this._handleSocketMessage(client, msg);
+        return;
+      case 'tcp-data':
+      case 'tcp-end':
+      case 'tcp-close':
+        this._handleTcpMessage(client, msg);
+        return;
+      case 'ack':
+        if (client.kind === 'tcp') {
+          this._handleTcpMessage(client, msg);
+          return;
+        }
+    }
+
+    const pending = client.pending.get(msg.requestId);
+    if (!pending) return;
+
+    switch (msg.type) {
+      case 'response':
+        this._completeRequest(client, pending, msg);
+        break;
+      case 'response-start': {
+        if (pending.timer) clearTimeout(pending.timer);
+        pending.timer = null;
+        if (!writeClientHead(pending.res, msg.status, msg.headers)) {
+          this._badResponse(client, pending, msg.requestId);
+          break;
+        }
+        // Flush immediately so server-sent events reach the caller before the first chunk
+        pending.res.flushHeaders();
+        break;
+      }
+      case 'response-data': {
+        const chunk = Buffer.from(msg.data, 'base64');
+        pending.size += chunk.length;
+        pending.res.write(chunk, () => {
+          this._send(client, { type: 'ack', requestId: msg.requestId, bytes: chunk.length });
+        });
+        break;
+      }
+      case 'response-end':
+        client.pending.delete(msg.requestId);
+        // Answered before the upload finished (401, 413…): drop the rest of the body
+        if (!pending.req.complete) {
+          pending.req.removeAllListeners('data');
+          pending.req.resume();
+        }
+        if (msg.error) pending.res.destroy();
+        else pending.res.end();
+        this._emitRequest(client.subdomain, pending.req, pending.res.statusCode, pending.startMs, pending.size);
+        break;
+      case 'ack':
+        pending.unacked -= msg.bytes;
+        if (pending.req.isPaused() && pending.unacked <= STREAM_WINDOW / 2) pending.req.resume();
+        break;
+    }
+  }
+
+  // ── Public HTTP proxying ───────────────────────────────────────────────────
+
+  private _subdomainFor(hostHeader: string | undefined): string | null {
+    if (!hostHeader) return null;
+    const host = stripPort(hostHeader);
+    const base = stripPort(this.options.domain);
+    if (!host.endsWith(`.${base}`)) return null;
+    return host.slice(0, -(base.length + 1));
+  }
+
+  /** The caller's headers plus the x-forwarded-* set the client relies on */
+  private _forwardedHeaders(req: http.IncomingMessage): Headers {
+    const headers = { ...req.headers } as Headers;
+    const remote = req.socket.remoteAddress ?? '';
+    const prior = req.headers['x-forwarded-for'];
+    headers['x-forwarded-for'] = prior ? `${prior}, ${remote}` : remote;
+    headers['x-forwarded-proto'] = this.options.secure ? 'https' : 'http';
+    headers['x-forwarded-host'] = req.headers.host ?? '';
+    return headers;
+  }
+
+  private _handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const subdomain = this._subdomainFor(req.headers.host);
+    if (!subdomain) {
+      sendJson(res, 200, { name: 'tunnrl relay', tunnels: this._clients.size });
+      return;
+    }
+
+    const client = this._clients.get(subdomain);
+    if (!client || client.kind !== 'http') {
+      sendJson(res, 404, { error: 'Tunnel not found', subdomain });
+      return;
+    }
+
+    const requestId = uuidv4();
+    const headers = this._forwardedHeaders(req);
+
+    const head = {
+      type: 'request' as const,
+      requestId,
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      headers,
+    };
+
+    const pending: PendingRequest = { req, res, startMs: Date.now(), timer: null, unacked: 0, size: 0 };
+    const startTimer = () => {
+      pending.timer = setTimeout(() => {
+        client.pending.delete(requestId);
+        if (client.streaming) this._send(client, { type: 'request-abort', requestId });
+        sendJson(res, 504, { error: 'Gateway Timeout', message: 'Tunnel client did not respond in time' });
+        this._emitRequest(subdomain, req, 504, pending.startMs, 0);
+      }, this.options.requestTimeout);
+    };
+
+    req.on('error', () => res.destroy());
+
+    if (!client.streaming) {
+      // Legacy clients take the whole body in one frame
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        pending.startMs = Date.now();
+        client.pending.set(requestId, pending);
+        startTimer();
+        this._send(client, { ...head, body: Buffer.concat(chunks).toString('base64') });
+      });
+      return;
+    }
+
+    client.pending.set(requestId, pending);
+    startTimer();
+    this._send(client, { ...head, body: '' });
+
+    req.on('data', (chunk: Buffer) => {
+      pending.unacked += chunk.length;
+      this._send(client, { type: 'request-data', requestId, data: chunk.toString('base64') });
+      if (pending.unacked >= STREAM_WINDOW) req.pause();
+    });
+    req.on('end', () => this._send(client, { type: 'request-end', requestId }));
+
+    // The caller hung up (closed an SSE stream, cancelled a download)
+    res.on('close', () => {
+      if (!client.pending.has(requestId)) return;
+      client.pending.delete(requestId);
+      if (pending.timer) clearTimeout(pending.timer);
+      this._send(client, { type: 'request-abort', requestId });
+      this._emitRequest(subdomain, req, res.headersSent ? res.statusCode : 499, pending.startMs, pending.size);
+    });
+  }
+
+  // ── WebSocket passthrough ──────────────────────────────────────────────────
+
+  private _handleProxiedUpgrade(subdomain: string, req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    const client = this._clients.get(subdomain);
+    if (!client || client.kind !== 'http') {
+      rejectUpgrade(socket, 404);
+      return;
+    }
+    if (!client.websockets) {
+      rejectUpgrade(socket, 501);
+      return;
+    }
+
+    const requestId = uuidv4();
+    const proxied: ProxiedSocket = { req, socket, head, startMs: Date.now(), ws: null, timer: null };
+    client.sockets.set(requestId, proxied);
+
+    proxied.timer = setTimeout(() => {
+      client.sockets.delete(requestId);
+      this._send(client, { type: 'ws-close', requestId });
+      rejectUpgrade(socket, 504);
+    }, this.options.requestTimeout);
+
+    socket.on('error', () => socket.destroy());
+
+    const protocols = parseFeatures(req.headers['sec-websocket-protocol']);
+    this._send(client, {
+      type: 'ws-open',
+      requestId,
+      path: req.url ?? '/',
+      headers: this._forwardedHeaders(req),
+      protocols,
+    });
+  }
+
+  private _handleSocketMessage(
+    client: ClientState,
+    msg: Extract<ClientMessage, { type: 'ws-opened' | 'ws-rejected' | 'ws-message' | 'ws-close' }>
+  ): void {
+    const proxied = client.sockets.get(msg.requestId);
+    if (!proxied) return;
+    const { requestId } = msg;
+
+    switch (msg.type) {
+      case 'ws-opened':
+        if (proxied.timer) clearTimeout(proxied.timer);
+        proxied.timer = null;
+        if (msg.protocol) this._chosenProtocols.set(proxied.req, msg.protocol);
+        this._proxyWss.handleUpgrade(proxied.req, proxied.socket, proxied.head, (ws) => {
+          proxied.ws = ws;
+          this._emitRequest(client.subdomain, proxied.req, 101, proxied.startMs, 0);
+
+          ws.on('message', (data: Buffer, isBinary: boolean) => {
+            this._send(client, { type: 'ws-message', requestId, data: data.toString('base64'), binary: isBinary });
+          });
+          ws.on('close', (code: number, reason: Buffer) => {
+            if (!client.sockets.delete(requestId)) return;
+            this._send(client, isSendableCloseCode(code)
+              ? { type: 'ws-close', requestId, code, reason: reason.toString() }
+              : { type: 'ws-close', requestId });
+          });
+          ws.on('error', () => ws.terminate());
+        });
+        break;
+      case 'ws-rejected':
+        if (proxied.timer) clearTimeout(proxied.timer);
+        client.sockets.delete(requestId);
+        rejectUpgrade(proxied.socket, msg.status);
+        this._emitRequest(client.subdomain, proxied.req, msg.status, proxied.startMs, 0);
+        break;
+      case 'ws-message':
+        if (proxied.ws?.readyState === WebSocket.OPEN) {
+          const data = Buffer.from(msg.data, 'base64');
+          proxied.ws.send(msg.binary ? data : data.toString(), { binary: msg.binary });
+        }
+        break;
+      case 'ws-close':
+        if (proxied.timer) clearTimeout(proxied.timer);
+        client.sockets.delete(requestId);
+        if (!proxied.ws) rejectUpgrade(proxied.socket, 502);
+        else if (isSendableCloseCode(msg.code)) proxied.ws.close(msg.code, msg.reason);
+        else proxied.ws.close();
+        break;
+    }
+  }
+
+  // ── Raw TCP ────────────────────────────────────────────────────────────────
+
+  private async _openTcp(client: ClientState): Promise<void> {
+    const server = net.createServer({ allowHalfOpen: true }, (socket) => this._acceptTcp(client, socket));
+    client.tcpServer = server;
+    const port = await listenOnFreePort(server, this.options.bind, this.options.tcpPortRange, this._tcpPorts);
+    this._tcpPorts.add(port);
+    client.url = `tcp://${stripPort(this.options.domain)}:${port}`;
+  }
+
+  private _closeTcp(client: ClientState): void {
+    for (const conn of client.connections.values()) conn.socket.destroy();
+    client.connections.clear();
+    const address = client.tcpServer?.address();
+    if (address && typeof address === 'object') this._tcpPorts.delete(address.port);
+    client.tcpServer?.close();
+    client.tcpServer = null;
+  }
+
+  private _acceptTcp(client: ClientState, socket: net.Socket): void {
+    const requestId = uuidv4();
+    const remoteAddress = `${socket.remoteAddress ?? ''}:${socket.remotePort ?? ''}`;
+    const conn: TcpConnection = { socket, remoteAddress, startMs: Date.now(), unacked: 0, bytesIn: 0, bytesOut: 0 };
+    client.connections.set(requestId, conn);
+
+    this._send(client, { type: 'tcp-open', requestId, remoteAddress });
+
+    socket.on('data', (chunk: Buffer) => {
+      conn.bytesIn += chunk.length;
+      conn.unacked += chunk.length;
+      this._send(client, { type: 'tcp-data', requestId, data: chunk.toString('base64') });
+      if (conn.unacked >= STREAM_WINDOW) socket.pause();
+    });
+    socket.on('end', () => this._send(client, { type: 'tcp-end', requestId }));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      if (!client.connections.delete(requestId)) return;
+      this._send(client, { type: 'tcp-close', requestId });
+      this._emitConnection(client, conn);
+    });
+  }
+
+  private _handleTcpMessage(
+    client: ClientState,
+    msg: Extract<ClientMessage, { type: 'tcp-data' | 'tcp-end' | 'tcp-close' | 'ack' }>
+  ): void {
+    const conn = client.connections.get(msg.requestId);
+    if (!conn) return;
+
+    switch (msg.type) {
+      case 'tcp-data': {
+        const chunk = Buffer.from(msg.data, 'base64');
+        conn.bytesOut += chunk.length;
+        conn.socket.write(chunk, () => {
+          this._send(client, { type: 'ack', requestId: msg.requestId, bytes: chunk.length });
+        });
+        break;
+      }
+      case 'tcp-end':
+        conn.socket.end();
+        break;
+      case 'tcp-close':
+        client.connections.delete(msg.requestId);
+        conn.socket.destroy();
+        this._emitConnection(client, conn);
+        break;
+      case 'ack':
+        conn.unacked -= msg.bytes;
+        if (conn.socket.isPaused() && conn.unacked <= STREAM_WINDOW / 2) conn.socket.resume();
+        break;
+    }
+  }
+
+  private _emitConnection(client: ClientState, conn: TcpConnection): void {
+    this.emit('connection', {
+      subdomain: client.subdomain,
+      remoteAddress: conn.remoteAddress,
+      bytesIn: conn.bytesIn,
+      bytesOut: conn.bytesOut,
+      duration: Date.now() - conn.startMs,
+    } as RelayConnectionEvent);
+  }
+
+  private _completeRequest(client: ClientState, pending: PendingRequest, msg: ForwardedResponse): void {
+    client.pending.delete(msg.requestId);
+    if (pending.timer) clearTimeout(pending.timer);
+
+    const { req, res, startMs } = pending;
+    const body = Buffer.from(msg.body ?? '', 'base64');
+    if (!writeClientHead(res, msg.status, { ...msg.headers, 'content-length': String(body.length) })) {
+      this._badResponse(client, pending, msg.requestId);
+      return;
+    }
+    res.end(body);
+    this._emitRequest(client.subdomain, req, msg.status, startMs, body.length);
+  }
+
+  /**
+   * A client answered with a head that cannot be written. Only this request
+   * fails: a 502 if nothing went out yet, otherwise the response is cut off.
+   */
+  private _badResponse(client: ClientState, pending: PendingRequest, requestId: string): void {
+    client.pending.delete(requestId);
+    if (pending.timer) clearTimeout(pending.timer);
+    if (client.streaming) this._send(client, { type: 'request-abort', requestId });
+    if (!pending.req.complete) {
+      pending.req.removeAllListeners('data');
+      pending.req.resume();
+    }
+    if (pending.res.headersSent) {
+      pending.res.destroy();
+    } else {
+      sendJson(pending.res, 502, { error: 'Bad Gateway', message: 'Tunnel client sent an invalid response' });
+    }
+    this._emitRequest(client.subdomain, pending.req, 502, pending.startMs, 0);
+  }
+
+  private _emitRequest(
+    subdomain: string,
+    req: http.IncomingMessage,
+    status: number,
+    startMs: number,
+    size: number
+  ): void {
+    this.emit('request', {
+      subdomain,
+      method: req.method ?? 'GET',
+      path: req.url ?? '/',
+      status,
+      duration: Date.now() - startMs,
+      size,
+    } as RelayRequestEvent);
+  }
+}
+
+/** Create a relay server and start listening */
+export async function startServer(options: ServerOptions): Promise<RelayServer> {
+  const server = new RelayServer(options);
+  await server.listen();
+  return server;
+}
@@ -0,0 +1,284 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { inMemoryConnector } from './memory';
+import type { Upstream } from './routes';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StaticOptions {
+  /** Directory to serve */
+  dir: string;
+  /** Answer unknown paths with the root index.html, for client-side routing */
+  spa?: boolean;
+  /** List directories that have no index.html (default: true) */
+  listing?: boolean;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.cjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.yml': 'text/yaml; charset=utf-8',
+  '.yaml': 'text/yaml; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.wasm': 'application/wasm',
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function contentType(file: string): string {
+  return MIME_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/** Weak validator from size and mtime; cheap, and changes whenever the file does */
+function etagFor(stat: fs.Stats): string {
+  return `W/"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * The byte range asked for by a `Range` header, clamped to the file. null
+ * when the header is absent or asks for several ranges (the whole file is
+ * sent instead); `unsatisfiable` when it starts past the end.
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/** Whether `stat` still matches what the caller has cached */
+function isFresh(req: http.IncomingMessage, etag: string, stat: fs.Stats): boolean {
+  const noneMatch = req.headers['if-none-match'];
+  if (noneMatch) {
+    return noneMatch.split(',').some((tag) => {
+      const t = tag.trim();
+      return t === '*' || t.replace(/^W\//, '') === etag.replace(/^W\//, '');
+    });
+  }
+  const since = Date.parse(req.headers['if-modified-since'] ?? '');
+  return !isNaN(since) && Math.floor(stat.mtimeMs / 1000) * 1000 <= since;
+}
+
+async function statOrNull(file: string): Promise<fs.Stats | null> {
+  try {
+    return await fs.promises.stat(file);
+  } catch {
+    return null;
+  }
+}
+
+async function renderListing(dir: string, urlPath: string): Promise<string> {
+  const entries = (await fs.promises.readdir(dir, { withFileTypes: true }))
+    .filter((entry) => !entry.name.startsWith('.'))
+    .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+  const rows: string[] = [];
+  if (urlPath !== '/') rows.push('<tr><td><a href="../">../</a></td><td></td><td></td></tr>');
+  for (const entry of entries) {
+    const stat = await statOrNull(path.join(dir, entry.name));
+    if (!stat) continue;
+    const name = stat.isDirectory() ? `${entry.name}/` : entry.name;
+    const size = stat.isDirectory() ? '' : formatSize(stat.size);
+    const modified = stat.mtime.toISOString().replace('T', ' ').slice(0, 16);
+    rows.push(`<tr><td><a href="${encodeURIComponent(entry.name)}${stat.isDirectory() ? '/' : ''}">${escapeHtml(name)}</a></td><td>${size}</td><td>${modified}</td></tr>`);
+  }
+
+  const title = `Index of ${escapeHtml(urlPath)}`;
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${title}</title>
+<style>body{font:14px/1.5 system-ui,sans-serif;margin:2rem;color:#222}h1{font-size:1.2rem}
+table{border-collapse:collapse}td{padding:.2rem 1.5rem .2rem 0}td:nth-child(2){text-align:right;color:#666}td:nth-child(3){color:#666}
+a{color:#0366d6;text-decoration:none}a:hover{text-decoration:underline}</style></head>
+<body><h1>${title}</h1><table>${rows.join('\n')}</table></body></html>
+`;
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────────────
+
+/**
+ * A request listener serving files from `options.dir`: content types from the
+ * file extension, index.html for directories, listings for directories
+ * without one, single byte ranges and ETag / Last-Modified revalidation.
+ * Dotfiles are never served.
+ */
+export function staticListener(options: StaticOptions): http.RequestListener {
+  const root = path.resolve(options.dir);
+  const listing = options.listing !== false;
+
+  const send = (res: http.ServerResponse, status: number, body: string, headers: http.OutgoingHttpHeaders = {}) => {
+    const buf = Buffer.from(body);
+    res.writeHead(status, { 'content-type': 'text/plain; charset=utf-8', 'content-length': buf.length, ...headers });
+    res.end(res.req.method === 'HEAD' ? undefined : buf);
+  };
+
+  const sendFile = (req: http.IncomingMessage, res: http.ServerResponse, file: string, stat: fs.Stats) => {
+    const etag = etagFor(stat);
+    const headers: http.OutgoingHttpHeaders = {
+      'content-type': contentType(file),
+      'accept-ranges': 'bytes',
+      'cache-control': 'no-cache',
+      'last-modified': stat.mtime.toUTCString(),
+      etag,
+    };
+    if (isFresh(req, etag, stat)) {
+      res.writeHead(304, headers);
+      res.end();
+      return;
+    }
+
+    const ifRange = req.headers['if-range'];
+    const range = ifRange && ifRange !== etag ? null : parseRange(req.headers.range, stat.size);
+    if (range === 'unsatisfiable') {
+      send(res, 416, 'Range Not Satisfiable', { 'content-range': `bytes */${stat.size}` });
+      return;
+    }
+    const start = range?.start ?? 0;
+    const end = range?.end ?? stat.size - 1;
+    if (range) headers['content-range'] = `bytes ${start}-${end}/${stat.size}`;
+    headers['content-length'] = Math.max(0, end - start + 1);
+    res.writeHead(range ? 206 : 200, headers);
+    if (req.method === 'HEAD' || stat.size === 0) {
+      res.end();
+      return;
+    }
+    const stream = fs.createReadStream(file, { start, end });
+    stream.on('error', () => res.destroy());
+    stream.pipe(res);
+  };
+
+  return async (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      send(res, 405, 'Method Not Allowed', { allow: 'GET, HEAD' });
+      return;
+    }
+
+    let urlPath: string;
+    try {
+      urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      send(res, 400, 'Bad Request');
+      return;
+    }
+    const file = path.join(root, path.normalize(urlPath));
+    const inside = file === root || file.startsWith(root + path.sep);
+    if (!inside || urlPath.includes('\0') || urlPath.split('/').some((part) => part.startsWith('.') && part !== '')) {
+      send(res, 404, 'Not Found');
+      return;
+    }
+
+    try {
+      const stat = await statOrNull(file);
+      if (stat?.isDirectory()) {
+        if (!urlPath.endsWith('/')) {
+          // Relative links in the page resolve against the directory only with a trailing slash
+          const query = req.url?.includes('?') ? req.url.slice(req.url.indexOf('?')) : '';
+          send(res, 301, 'Moved Permanently', { location: `${encodeURI(urlPath)}/${query}` });
+          return;
+        }
+        const index = path.join(file, 'index.html');
+        const indexStat = await statOrNull(index);
+        if (indexStat?.isFile()) {
+          sendFile(req, res, index, indexStat);
+          return;
+        }
+        if (listing) {
+          send(res, 200, await renderListing(file, urlPath), { 'content-type': 'text/html; charset=utf-8' });
+          return;
+        }
+      } else if (stat?.isFile()) {
+        sendFile(req, res, file, stat);
+        return;
+      }
+
+      // Client-side routes: anything without a file extension that a browser navigates to
+      if (options.spa && !path.extname(urlPath)) {
+        const index = path.join(root, 'index.html');
+        const indexStat = await statOrNull(index);
+        if (indexStat?.isFile()) {
+          sendFile(req, res, index, indexStat);
+          return;
+        }
+      }
+      send(res, 404, 'Not Found');
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      send(res, 500, `Cannot read ${urlPath}: ${(err as NodeJS.ErrnoException).code ?? (err as Error).message}`);
+    }
+  };
+}
+
+/** An upstream serving `options.dir` in process, with no port of its own */
+export function staticUpstream(options: StaticOptions): Upstream {
+  const dir = path.resolve(options.dir);
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(dir);
+  } catch {
+    throw new Error(`Directory not found: ${options.dir}`);
+  }
+  if (!stat.isDirectory()) throw new Error(`Not a directory: ${options.dir}`);
+
+  const server = http.createServer(staticListener({ ...options, dir }));
+  const relative = path.relative(process.cwd(), dir);
+  const shown = relative.startsWith('..') || path.isAbsolute(relative) ? dir : relative || '.';
+  return {
+    host: 'localhost',
+    port: 80,
+    connect: inMemoryConnector(server),
+    name: `${shown}${path.sep} (static)`,
+  };
+}
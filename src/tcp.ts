@@ -0,0 +1,158 @@
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import WebSocket from 'ws';
+import { ClientMessage, STREAM_WINDOW, ServerFrame, TcpOpen } from './protocol';
+import { FrameEncoder, FramingOptions } from './framing';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One inbound TCP connection, reported when it opens and again when it closes */
+export interface ConnectionInfo {
+  requestId: string;
+  remoteAddress: string;
+  /** Bytes received from the public side and written to the local port */
+  bytesIn: number;
+  /** Bytes read from the local port and sent to the public side */
+  bytesOut: number;
+  duration: number;
+  error?: string;
+}
+
+interface ConnectionState {
+  info: ConnectionInfo;
+  local: net.Socket;
+  startMs: number;
+  unacked: number;
+  paused: boolean;
+}
+
+// ─── TCP stream dispatcher ────────────────────────────────────────────────────
+
+/**
+ * Client side of a raw TCP tunnel: dials the local port for every `tcp-open`
+ * frame and pipes bytes both ways, pausing the local socket whenever
+ * STREAM_WINDOW bytes are waiting to be acknowledged by the relay.
+ *
+ * Emits `connection-open` and `connection-close` (ConnectionInfo).
+ */
+export class TcpDispatcher extends EventEmitter {
+  private _connections = new Map<string, ConnectionState>();
+  private _encoder: FrameEncoder;
+
+  constructor(
+    private _ws: WebSocket,
+    private _localHost: string,
+    private _localPort: number,
+    framing?: FramingOptions
+  ) {
+    super();
+    this._encoder = new FrameEncoder(framing);
+  }
+
+  /** Connections currently open */
+  get inFlight(): number {
+    return this._connections.size;
+  }
+
+  /** Handle a frame from the relay. Returns false if it is not a TCP frame. */
+  handle(msg: ServerFrame): boolean {
+    switch (msg.type) {
+      case 'tcp-open':
+        this._open(msg);
+        return true;
+      case 'tcp-data': {
+        const state = this._connections.get(msg.requestId);
+        if (!state) return true;
+        const chunk = Buffer.from(msg.data, 'base64');
+        state.info.bytesIn += chunk.length;
+        state.local.write(chunk, () => {
+          this._send({ type: 'ack', requestId: msg.requestId, bytes: chunk.length });
+        });
+        return true;
+      }
+      case 'tcp-end':
+        this._connections.get(msg.requestId)?.local.end();
+        return true;
+      case 'tcp-close': {
+        const state = this._connections.get(msg.requestId);
+        if (!state) return true;
+        state.local.destroy();
+        this._close(state, msg.error);
+        return true;
+      }
+      case 'ack': {
+        const state = this._connections.get(msg.requestId);
+        if (!state) return true;
+        state.unacked -= msg.bytes;
+        if (state.paused && state.unacked <= STREAM_WINDOW / 2) {
+          state.paused = false;
+          state.local.resume();
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /** Drop every open connection (the relay connection is gone) */
+  abortAll(): void {
+    for (const state of this._connections.values()) {
+      state.local.destroy();
+      this._close(state, 'Tunnel disconnected');
+    }
+  }
+
+  private _open(msg: TcpOpen): void {
+    const { requestId } = msg;
+    const local = net.createConnection({ host: this._localHost, port: this._localPort, allowHalfOpen: true });
+
+    const state: ConnectionState = {
+      local,
+      startMs: Date.now(),
+      unacked: 0,
+      paused: false,
+      info: { requestId, remoteAddress: msg.remoteAddress, bytesIn: 0, bytesOut: 0, duration: 0 },
+    };
+    this._connections.set(requestId, state);
+    this.emit('connection-open', { ...state.info });
+
+    local.on('data', (chunk: Buffer) => {
+      state.info.bytesOut += chunk.length;
+      state.unacked += chunk.length;
+      this._send({ type: 'tcp-data', requestId, data: chunk.toString('base64') });
+      if (state.unacked >= STREAM_WINDOW) {
+        state.paused = true;
+        local.pause();
+      }
+    });
+
+    local.on('end', () => this._send({ type: 'tcp-end', requestId }));
+
+    local.on('error', (err: NodeJS.ErrnoException) => {
+      const error = err.code === 'ECONNREFUSED'
+        ? `Could not connect to ${this._localHost}:${this._localPort}. Is your local service running?`
+        : err.message;
+      this._send({ type: 'tcp-close', requestId, error });
+      this._close(state, error);
+    });
+
+    local.on('close', () => {
+      if (!this._connections.has(requestId)) return;
+      this._send({ type: 'tcp-close', requestId });
+      this._close(state);
+    });
+  }
+
+  private _close(state: ConnectionState, error?: string): void {
+    if (!this._connections.delete(state.info.requestId)) return;
+    state.info.duration = Date.now() - state.startMs;
+    if (error) state.info.error = error;
+    this.emit('connection-close', { ...state.info });
+  }
+
+  private _send(msg: ClientMessage): void {
+    if (this._ws.readyState !== WebSocket.OPEN) return;
+    this._ws.send(this._encoder.encode(msg));
+  }
+}
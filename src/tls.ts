@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import type * as https from 'https';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** TLS settings used when dialling `https://` upstreams */
+export interface UpstreamTls {
+  /** Accept self-signed or otherwise untrusted certificates */
+  insecure?: boolean;
+  /** Extra CA certificates to trust, PEM */
+  ca?: string | Buffer;
+  /** Client certificate and key for mutual TLS, PEM */
+  cert?: string | Buffer;
+  key?: string | Buffer;
+  /** Name sent for SNI and checked against the certificate (default: the upstream host) */
+  servername?: string;
+}
+
+/** Certificate errors the user can fix by trusting the CA or turning verification off */
+const UNTRUSTED_CERT = [
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'CERT_HAS_EXPIRED',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+function readPem(value: string | Buffer, what: string): string | Buffer {
+  if (Buffer.isBuffer(value) || value.includes('-----BEGIN')) return value;
+  try {
+    return fs.readFileSync(value);
+  } catch (err) {
+    throw new Error(`Cannot read ${what} ${value}: ${(err as NodeJS.ErrnoException).code ?? (err as Error).message}`);
+  }
+}
+
+/**
+ * Resolve options as given on the command line or to `tunnrl()`, where
+ * `ca`, `cert` and `key` may be file paths, into PEM contents. Returns null
+ * when nothing is set.
+ */
+export function loadUpstreamTls(input: UpstreamTls): UpstreamTls | null {
+  if (Boolean(input.cert) !== Boolean(input.key)) {
+    throw new Error('A client certificate needs both a cert and a key');
+  }
+  const tls: UpstreamTls = {};
+  if (input.insecure) tls.insecure = true;
+  if (input.ca) tls.ca = readPem(input.ca, 'CA certificate');
+  if (input.cert) tls.cert = readPem(input.cert, 'client certificate');
+  if (input.key) tls.key = readPem(input.key, 'client key');
+  if (input.servername) tls.servername = input.servername;
+  return Object.keys(tls).length > 0 ? tls : null;
+}
+
+// ─── Request options ─────────────────────────────────────────────────────────
+
+/** Options for https.request / new WebSocket('wss://…') */
+export function tlsRequestOptions(tls: UpstreamTls | null | undefined): https.RequestOptions {
+  const options: https.RequestOptions = {};
+  if (!tls) return options;
+  if (tls.insecure) options.rejectUnauthorized = false;
+  if (tls.ca) options.ca = tls.ca;
+  if (tls.cert) options.cert = tls.cert;
+  if (tls.key) options.key = tls.key;
+  if (tls.servername) options.servername = tls.servername;
+  return options;
+}
+
+/** A hint for TLS failures the user can fix with options; null for anything else */
+export function tlsErrorHint(err: NodeJS.ErrnoException): string | null {
+  if (!err.code || !UNTRUSTED_CERT.includes(err.code)) return null;
+  return err.code === 'ERR_TLS_CERT_ALTNAME_INVALID'
+    ? 'set the expected name with --upstream-sni, or skip checks with --upstream-insecure'
+    : 'trust its CA with --upstream-ca, or skip checks with --upstream-insecure';
+}
+
+/** OpenSSL errors carry a short `reason` ("wrong version number"); the message has the whole stack */
+export function tlsErrorReason(err: Error): string {
+  const reason = (err as Error & { reason?: string }).reason;
+  return reason ?? /SSL routines:[^:]*:([^:]+)/.exec(err.message)?.[1] ?? err.message;
+}
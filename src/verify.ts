@@ -0,0 +1,266 @@
+import * as crypto from 'crypto';
+import { safeEqual } from './access';
+import type { Headers } from './protocol';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Webhook senders whose signature schemes are known, plus `hmac` for anything else */
+export type VerifyProvider = 'stripe' | 'github' | 'slack' | 'hmac';
+
+export const VERIFY_PROVIDERS: VerifyProvider[] = ['stripe', 'github', 'slack', 'hmac'];
+
+/** One signing secret to check requests against */
+export interface VerifyRule {
+  provider: VerifyProvider;
+  secret: string;
+  /** Header carrying the signature; `hmac` only, the others have their own */
+  header?: string;
+}
+
+export interface VerifyOptions {
+  rules: VerifyRule[];
+  /** Answer requests with a missing or bad signature with 401 instead of forwarding them */
+  reject?: boolean;
+}
+
+/** How a request's signature checked out */
+export interface Verification {
+  /** The scheme the request was checked against; the first rule's when it carried no signature */
+  provider: VerifyProvider;
+  valid: boolean;
+  /** Why the signature was not accepted */
+  reason?: string;
+  /** What the webhook is about, e.g. `checkout.session.completed` or `pull_request.opened` */
+  event?: string;
+}
+
+/** Stripe and Slack sign a timestamp too; older ones are treated as replays */
+const TIMESTAMP_TOLERANCE = 5 * 60;
+
+const PROVIDER_NAMES: Record<VerifyProvider, string> = {
+  stripe: 'Stripe',
+  github: 'GitHub',
+  slack: 'Slack',
+  hmac: 'HMAC',
+};
+
+/** The header each scheme is recognised by */
+const SIGNATURE_HEADERS: Record<Exclude<VerifyProvider, 'hmac'>, string> = {
+  stripe: 'stripe-signature',
+  github: 'x-hub-signature-256',
+  slack: 'x-slack-signature',
+};
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/** Parse `stripe:<secret>`, `github:<secret>`, `slack:<secret>` or `hmac:<header>:<secret>` */
+export function parseVerifyRule(spec: string): VerifyRule {
+  const colon = spec.indexOf(':');
+  if (colon === -1) throw new Error(`Invalid verify rule "${spec}": expected stripe:, github:, slack: or hmac: followed by the secret`);
+  const provider = spec.slice(0, colon).trim().toLowerCase() as VerifyProvider;
+  const rest = spec.slice(colon + 1);
+  if (provider !== 'hmac') return checkVerifyRule({ provider, secret: rest }, spec);
+  const split = rest.indexOf(':');
+  return checkVerifyRule({ provider, header: split === -1 ? '' : rest.slice(0, split).trim(), secret: rest.slice(split + 1) }, spec);
+}
+
+/** Validate a rule given as an object, as `tunnrl()` accepts; `spec` is what the user wrote, for messages */
+export function checkVerifyRule(rule: VerifyRule, spec = `${rule.provider}:…`): VerifyRule {
+  if (!VERIFY_PROVIDERS.includes(rule.provider)) {
+    throw new Error(`Invalid verify rule "${spec}": expected stripe:, github:, slack: or hmac: followed by the secret`);
+  }
+  if (!rule.secret) throw new Error(`Invalid verify rule "${spec}": the secret is empty`);
+  if (rule.provider === 'hmac') {
+    if (!rule.header) throw new Error(`Invalid verify rule "${spec}": expected hmac:<header>:<secret>, e.g. hmac:x-signature:s3cret`);
+    return { ...rule, header: rule.header.toLowerCase() };
+  }
+  return rule;
+}
+
+export function providerName(provider: VerifyProvider): string {
+  return PROVIDER_NAMES[provider];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function firstHeader(headers: Headers, name: string): string {
+  const val = headers[name];
+  return Array.isArray(val) ? val[0] ?? '' : val ?? '';
+}
+
+function signatureHeader(rule: VerifyRule): string {
+  return rule.provider === 'hmac' ? rule.header! : SIGNATURE_HEADERS[rule.provider];
+}
+
+/** The signature header of a rule, capitalised for messages: `Stripe-Signature` */
+function headerFor(rule: VerifyRule): string {
+  return signatureHeader(rule).replace(/(^|-)([a-z])/g, (_, dash: string, c: string) => dash + c.toUpperCase());
+}
+
+function parseJson(body: Buffer): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(body.toString('utf8'));
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function stringField(obj: Record<string, unknown> | null | undefined, key: string): string | undefined {
+  const val = obj?.[key];
+  return typeof val === 'string' ? val : undefined;
+}
+
+/** Whether a signed timestamp (in seconds) is recent enough */
+function isFresh(timestamp: string): boolean {
+  const seconds = Number(timestamp);
+  return Number.isFinite(seconds) && Math.abs(Date.now() / 1000 - seconds) <= TIMESTAMP_TOLERANCE;
+}
+
+/**
+ * What a webhook body is about, going by how each sender describes its
+ * events: Stripe's `type`, GitHub's X-GitHub-Event and `action`, and for
+ * Slack the event type, slash command or interaction type.
+ */
+function describeEvent(provider: VerifyProvider, headers: Headers, body: Buffer): string | undefined {
+  switch (provider) {
+    case 'stripe':
+      return stringField(parseJson(body), 'type');
+    case 'github': {
+      const event = firstHeader(headers, 'x-github-event');
+      const action = stringField(parseJson(body), 'action');
+      return event ? (action ? `${event}.${action}` : event) : undefined;
+    }
+    case 'slack': {
+      if (firstHeader(headers, 'content-type').includes('application/x-www-form-urlencoded')) {
+        const form = new URLSearchParams(body.toString('utf8'));
+        const payload = form.get('payload');
+        return form.get('command') ?? (payload ? stringField(parseJson(Buffer.from(payload)), 'type') : undefined);
+      }
+      const json = parseJson(body);
+      const inner = json?.event && typeof json.event === 'object' ? json.event as Record<string, unknown> : null;
+      return stringField(inner, 'type') ?? stringField(json, 'type');
+    }
+    default:
+      return undefined;
+  }
+}
+
+// ─── Checking ────────────────────────────────────────────────────────────────
+
+/**
+ * The signature check for one request. The HMAC is computed as body chunks
+ * arrive, so checking a streamed request never holds its body. `finish` may
+ * be called more than once and returns the same result.
+ */
+export class SignatureCheck {
+  private _hmac: crypto.Hmac | null = null;
+  private _expected: string[] = [];
+  private _encoding: 'hex' | 'base64' = 'hex';
+  private _timestamp: string | null = null;
+  private _result: Verification | null = null;
+
+  constructor(readonly rule: VerifyRule | null, private _headers: Headers, private _fallback: VerifyRule[]) {
+    if (rule) this._prepare(rule);
+  }
+
+  update(chunk: Buffer): void {
+    this._hmac?.update(chunk);
+  }
+
+  /** `body` (or its first part) is only read to name the event */
+  finish(body: Buffer): Verification {
+    if (this._result) return this._result;
+    const { rule } = this;
+    if (!rule) {
+      // Nothing to name the event by either: any of the senders could have been meant
+      const expected = [...new Set(this._fallback.map(headerFor))];
+      const reason = expected.length === 1
+        ? `No ${expected[0]} header`
+        : `No signature header (expected ${expected.slice(0, -1).join(', ')} or ${expected[expected.length - 1]})`;
+      this._result = { provider: this._fallback[0].provider, valid: false, reason };
+      return this._result;
+    }
+
+    const result: Verification = { provider: rule.provider, valid: false };
+    if (!this._hmac) {
+      result.reason = `Malformed ${headerFor(rule)} header`;
+    } else {
+      const digest = this._hmac.digest(this._encoding);
+      if (!this._expected.some((sig) => safeEqual(sig, digest))) result.reason = 'Signature does not match';
+      else if (this._timestamp !== null && !isFresh(this._timestamp)) result.reason = 'Timestamp is more than 5 minutes off';
+      else result.valid = true;
+    }
+    result.event = describeEvent(rule.provider, this._headers, body);
+    this._result = result;
+    return result;
+  }
+
+  /** Read the signature header and start the HMAC over whatever the scheme signs ahead of the body */
+  private _prepare(rule: VerifyRule): void {
+    const header = firstHeader(this._headers, signatureHeader(rule)).trim();
+    switch (rule.provider) {
+      case 'stripe': {
+        // t=1700000000,v1=<hex>,v1=<hex>
+        const pairs = header.split(',').map((pair) => pair.split('=').map((s) => s.trim()));
+        const timestamp = pairs.find(([key]) => key === 't')?.[1];
+        this._expected = pairs.filter(([key, val]) => key === 'v1' && val).map(([, val]) => val.toLowerCase());
+        if (!timestamp || this._expected.length === 0) return;
+        this._timestamp = timestamp;
+        this._hmac = crypto.createHmac('sha256', rule.secret).update(`${timestamp}.`);
+        return;
+      }
+      case 'github': {
+        // sha256=<hex>, or the older sha1=<hex> when only X-Hub-Signature is sent
+        const sha256 = /^sha256=([0-9a-f]+)$/i.exec(header);
+        const sha1 = /^sha1=([0-9a-f]+)$/i.exec(firstHeader(this._headers, 'x-hub-signature').trim());
+        const match = sha256 ?? sha1;
+        if (!match) return;
+        this._expected = [match[1].toLowerCase()];
+        this._hmac = crypto.createHmac(sha256 ? 'sha256' : 'sha1', rule.secret);
+        return;
+      }
+      case 'slack': {
+        // v0=<hex>, over `v0:<X-Slack-Request-Timestamp>:<body>`
+        const timestamp = firstHeader(this._headers, 'x-slack-request-timestamp').trim();
+        const match = /^v0=([0-9a-f]+)$/i.exec(header);
+        if (!match || !timestamp) return;
+        this._expected = [match[1].toLowerCase()];
+        this._timestamp = timestamp;
+        this._hmac = crypto.createHmac('sha256', rule.secret).update(`v0:${timestamp}:`);
+        return;
+      }
+      case 'hmac': {
+        // HMAC-SHA256 of the body, in hex or base64, optionally prefixed with `sha256=`
+        const signature = header.replace(/^sha256=/i, '');
+        if (!signature) return;
+        this._encoding = /^[0-9a-f]{64}$/i.test(signature) ? 'hex' : 'base64';
+        this._expected = [this._encoding === 'hex' ? signature.toLowerCase() : signature];
+        this._hmac = crypto.createHmac('sha256', rule.secret);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Checks webhook signatures against the signing secrets of one tunnel. Each
+ * request is checked against the first rule whose signature header it
+ * carries; requests carrying none fail against all of them.
+ */
+export class SignatureVerifier {
+  constructor(readonly rules: VerifyRule[], readonly reject = false) {}
+
+  begin(headers: Headers): SignatureCheck {
+    const rule = this.rules.find((r) => {
+      if (r.provider === 'github') return !!headers['x-hub-signature-256'] || !!headers['x-hub-signature'];
+      return !!headers[signatureHeader(r)];
+    });
+    return new SignatureCheck(rule ?? null, headers, this.rules);
+  }
+
+  /** e.g. `Stripe + GitHub` for the banner */
+  describe(): string {
+    return [...new Set(this.rules.map((r) => providerName(r.provider)))].join(' + ');
+  }
+}
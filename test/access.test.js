@@ -0,0 +1,59 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const { AccessControl, callerAddress, safeEqual } = require('../dist/access');
+
+const basic = (credentials) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+test('callerAddress trusts only the hop the relay appended', () => {
+  assert.strictEqual(callerAddress({ 'x-forwarded-for': '1.2.3.4, 10.0.0.7' }), '10.0.0.7');
+  assert.strictEqual(callerAddress({ 'x-forwarded-for': ['1.2.3.4', '::ffff:10.0.0.7'] }), '10.0.0.7');
+  assert.strictEqual(callerAddress({}), '');
+});
+
+test('safeEqual', () => {
+  assert.strictEqual(safeEqual('secret', 'secret'), true);
+  assert.strictEqual(safeEqual('secret', 'secreT'), false);
+  assert.strictEqual(safeEqual('secret', 'secrets'), false);
+});
+
+test('AccessControl', async (t) => {
+  await t.test('no rules lets everything through', () => {
+    const access = new AccessControl({});
+    assert.strictEqual(access.enabled, false);
+    assert.strictEqual(access.check({}), null);
+  });
+
+  await t.test('basic auth', () => {
+    const access = new AccessControl({ auth: 'ada:lovelace' });
+    assert.strictEqual(access.check({ authorization: basic('ada:lovelace') }), null);
+    assert.deepStrictEqual(access.check({}), {
+      status: 401,
+      reason: 'Missing credentials',
+      headers: { 'www-authenticate': 'Basic realm="tunnrl", charset="UTF-8"' },
+    });
+    assert.strictEqual(access.check({ authorization: basic('ada:babbage') }).reason, 'Invalid credentials');
+    assert.throws(() => new AccessControl({ auth: 'ada' }), /user:pass/);
+  });
+
+  await t.test('either credential works when auth and token are both set', () => {
+    const access = new AccessControl({ auth: 'ada:lovelace', token: 't0ken' });
+    assert.strictEqual(access.check({ authorization: 'Bearer t0ken' }), null);
+    assert.strictEqual(access.check({ authorization: basic('ada:lovelace') }), null);
+    assert.strictEqual(access.check({ authorization: 'bearer wrong' }).status, 401);
+    assert.strictEqual(new AccessControl({ token: 't0ken' }).check({}).headers['www-authenticate'], 'Bearer realm="tunnrl"');
+  });
+
+  await t.test('IP allowlist runs before credentials', () => {
+    const access = new AccessControl({ allowIp: ['10.0.0.0/8', '::1'], token: 't0ken' });
+    const from = (ip, extra = {}) => access.check({ 'x-forwarded-for': ip, ...extra });
+    assert.strictEqual(from('10.1.2.3', { authorization: 'Bearer t0ken' }), null);
+    assert.strictEqual(from('::1', { authorization: 'Bearer t0ken' }), null);
+    assert.deepStrictEqual(from('192.168.0.1', { authorization: 'Bearer t0ken' }), {
+      status: 403, reason: 'IP 192.168.0.1 not allowed', headers: {},
+    });
+    assert.strictEqual(from('10.0.0.1, 8.8.8.8').status, 403);
+    assert.strictEqual(access.check({}).reason, 'IP unknown not allowed');
+    assert.throws(() => new AccessControl({ allowIp: ['10.0.0.0/33'] }), /Invalid IP range: 10.0.0.0\/33/);
+  });
+});
@@ -0,0 +1,40 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const tunnrl = require('../dist/api');
+const { startRelay, request } = require('./helpers');
+
+test('tunnrl() options', async (t) => {
+  const relay = await startRelay();
+  const server = `ws://127.0.0.1:${relay.port}`;
+  t.after(() => relay.close());
+
+  await t.test('app serves requests in process without listening', async () => {
+    const app = http.createServer((req, res) => res.end(`app saw ${req.method} ${req.url}`));
+    const tunnel = await tunnrl({ app, server });
+    try {
+      const res = await request(relay.port, { host: new URL(tunnel.url).host, path: '/hello' });
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual(res.body.toString(), 'app saw GET /hello');
+      assert.strictEqual(app.listening, false);
+    } finally {
+      await tunnel.close();
+    }
+  });
+
+  await t.test('handler serves requests in process', async () => {
+    const tunnel = await tunnrl({ handler: (req, res) => res.end('from handler'), server });
+    try {
+      const res = await request(relay.port, { host: new URL(tunnel.url).host });
+      assert.strictEqual(res.body.toString(), 'from handler');
+    } finally {
+      await tunnel.close();
+    }
+  });
+
+  await t.test('needs exactly one target', async () => {
+    await assert.rejects(async () => tunnrl({ server }), /pass one of port, handler, app, fetch or dir/);
+    await assert.rejects(async () => tunnrl({ port: 3000, app: http.createServer(), server }), /alternatives; pass only one/);
+  });
+});
@@ -0,0 +1,83 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const { FrameEncoder, decodeFrame, negotiatedFraming } = require('../dist/framing');
+
+const text = Buffer.from('hello tunnel '.repeat(200));
+const b64 = (buf) => buf.toString('base64');
+
+/** Encode and decode again, as the other end would; returns the wire form too */
+function roundTrip(encoder, frame) {
+  const wire = encoder.encode(frame);
+  const isBinary = Buffer.isBuffer(wire);
+  return { wire, decoded: decodeFrame(isBinary ? wire : Buffer.from(wire), isBinary) };
+}
+
+test('negotiatedFraming', () => {
+  assert.deepStrictEqual(negotiatedFraming(['stream']), { binary: false, compress: false });
+  assert.deepStrictEqual(negotiatedFraming(['binary']), { binary: true, compress: false });
+  assert.deepStrictEqual(negotiatedFraming(['deflate']), { binary: false, compress: false });
+  assert.deepStrictEqual(negotiatedFraming(['binary', 'deflate']), { binary: true, compress: true });
+});
+
+test('JSON framing leaves frames as text', () => {
+  const frame = { type: 'response', requestId: 'r1', status: 200, headers: {}, body: b64(text) };
+  const { wire, decoded } = roundTrip(new FrameEncoder(), frame);
+  assert.strictEqual(typeof wire, 'string');
+  assert.deepStrictEqual(decoded, frame);
+});
+
+test('binary framing', async (t) => {
+  const encoder = new FrameEncoder({ binary: true, compress: false });
+
+  await t.test('sends bodies as raw bytes', () => {
+    const frame = { type: 'request-data', requestId: 'r1', data: b64(text) };
+    const { wire, decoded } = roundTrip(encoder, frame);
+    assert.ok(Buffer.isBuffer(wire));
+    assert.strictEqual(wire[0], 0);
+    assert.ok(wire.length < frame.data.length, 'no base64 overhead');
+    assert.deepStrictEqual(decoded, frame);
+  });
+
+  await t.test('keeps frames without a body as JSON', () => {
+    const frame = { type: 'request-end', requestId: 'r1' };
+    assert.deepStrictEqual(roundTrip(encoder, frame), { wire: JSON.stringify(frame), decoded: frame });
+  });
+
+  await t.test('rejects malformed frames', () => {
+    assert.throws(() => decodeFrame(Buffer.from([0, 0, 0]), true), /Truncated frame/);
+    assert.throws(() => decodeFrame(Buffer.from([0, 0, 0, 0, 99, 123]), true), /Truncated frame/);
+    const head = Buffer.from(JSON.stringify({ type: 'ping' }));
+    const prefix = Buffer.from([0, 0, 0, 0, head.length]);
+    assert.throws(() => decodeFrame(Buffer.concat([prefix, head]), true), /Unexpected binary ping frame/);
+  });
+});
+
+test('deflate', async (t) => {
+  await t.test('compresses bodies that shrink', () => {
+    const encoder = new FrameEncoder({ binary: true, compress: true });
+    const frame = { type: 'response', requestId: 'r1', status: 200, headers: { 'content-type': 'text/html' }, body: b64(text) };
+    const { wire, decoded } = roundTrip(encoder, frame);
+    assert.strictEqual(wire[0], 1);
+    assert.ok(wire.length < text.length / 10);
+    assert.deepStrictEqual(decoded, frame);
+  });
+
+  await t.test('leaves small bodies alone', () => {
+    const encoder = new FrameEncoder({ binary: true, compress: true });
+    const { wire } = roundTrip(encoder, { type: 'tcp-data', streamId: 's1', data: b64(text) });
+    assert.strictEqual(wire[0], 0, 'raw TCP is never compressed');
+    assert.strictEqual(encoder.encode({ type: 'ws-message', streamId: 's1', binary: false, data: b64(Buffer.from('hi')) })[0], 0);
+  });
+
+  await t.test('skips the data of streams that open compressed, until they end', () => {
+    const encoder = new FrameEncoder({ binary: true, compress: true });
+    const data = { type: 'response-data', requestId: 'r1', data: b64(text) };
+    encoder.encode({ type: 'response-start', requestId: 'r1', status: 200, headers: { 'content-encoding': 'gzip' } });
+    assert.strictEqual(encoder.encode(data)[0], 0);
+    encoder.encode({ type: 'response-end', requestId: 'r1' });
+    assert.strictEqual(encoder.encode(data)[0], 1);
+    encoder.encode({ type: 'response-start', requestId: 'r2', status: 200, headers: { 'content-type': 'image/png' } });
+    assert.strictEqual(encoder.encode({ ...data, requestId: 'r2' })[0], 0);
+  });
+});
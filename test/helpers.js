@@ -0,0 +1,62 @@
+'use strict';
+// Shared setup for the tests: free ports, a relay, and plain HTTP requests
+// through it. Tests run against the build in dist/ (`npm test` builds first).
+
+const http = require('http');
+const net = require('net');
+const WebSocket = require('ws');
+const { startServer } = require('../dist/server');
+
+function listen(server, host = '127.0.0.1') {
+  return new Promise((resolve) => server.listen(0, host, () => resolve(server.address().port)));
+}
+
+async function freePort() {
+  const server = net.createServer();
+  const port = await listen(server);
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/** A relay on a free port; `relay.port` is where callers and clients connect */
+async function startRelay(options = {}) {
+  const port = await freePort();
+  const relay = await startServer({ port, bind: '127.0.0.1', ...options });
+  relay.port = port;
+  return relay;
+}
+
+/** Resolves with `{ status, headers, body }`; `host` picks the tunnel */
+function request(port, { host, method = 'GET', path = '/', headers = {}, body } = {}) {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path, headers: { host, ...headers } }, (res) => {
+      const chunks = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Register a hand-driven client with the relay, to send it frames a real
+ * client would not. Resolves once registered, with the socket and the host
+ * callers use to reach it.
+ */
+function rawClient(relay, { features = 'stream', subdomain } = {}) {
+  return new Promise((resolve, reject) => {
+    const headers = { 'x-tunnrl-features': features };
+    if (subdomain) headers['x-tunnrl-subdomain'] = subdomain;
+    const ws = new WebSocket(`ws://127.0.0.1:${relay.port}/register`, { headers });
+    ws.once('error', reject);
+    ws.once('message', (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type !== 'registered') return reject(new Error(`Not registered: ${data}`));
+      resolve({ ws, host: new URL(msg.url).host });
+    });
+  });
+}
+
+module.exports = { listen, freePort, startRelay, request, rawClient };
@@ -0,0 +1,67 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseLimits, parseRateLimit, formatRateLimit, RateLimiter, ConcurrencyLimiter } = require('../dist/limits');
+
+test('parseRateLimit and formatRateLimit', () => {
+  assert.deepStrictEqual(parseRateLimit('60/min'), { requests: 60, windowMs: 60_000 });
+  assert.deepStrictEqual(parseRateLimit(' 10 / s '), { requests: 10, windowMs: 1000 });
+  assert.deepStrictEqual(parseRateLimit('5/10seconds'), { requests: 5, windowMs: 10_000 });
+  assert.deepStrictEqual(parseRateLimit('1000/Hours'), { requests: 1000, windowMs: 3_600_000 });
+  for (const bad of ['60', '0/min', '60/0min', '60/fortnight']) {
+    assert.throws(() => parseRateLimit(bad), /Invalid rate limit/, bad);
+  }
+  assert.strictEqual(formatRateLimit({ requests: 60, windowMs: 60_000 }), '60/min');
+  assert.strictEqual(formatRateLimit({ requests: 5, windowMs: 10_000 }), '5/10s');
+  assert.strictEqual(formatRateLimit({ requests: 3, windowMs: 2 * 86_400_000 }), '3/2day');
+  assert.strictEqual(formatRateLimit({ requests: 1, windowMs: 1500 }), '1/1500ms');
+});
+
+test('parseLimits', () => {
+  assert.deepStrictEqual(parseLimits({}), {});
+  assert.deepStrictEqual(parseLimits({ maxConcurrent: '4', queueSize: 0, overflow: 'reject', rateLimit: '10/s' }), {
+    maxConcurrent: 4,
+    queueSize: 0,
+    overflow: 'reject',
+    rateLimit: { requests: 10, windowMs: 1000 },
+  });
+  assert.throws(() => parseLimits({ maxConcurrent: 0 }), /The concurrency limit must be a whole number of at least 1/);
+  assert.throws(() => parseLimits({ queueSize: '1.5' }), /The queue size must be a whole number of at least 0/);
+  assert.throws(() => parseLimits({ overflow: 'drop' }), /Overflow must be "wait" or "reject", not "drop"/);
+});
+
+test('RateLimiter', () => {
+  const limiter = new RateLimiter({ requests: 2, windowMs: 10_000 });
+  assert.strictEqual(limiter.take('a', 0), null);
+  assert.strictEqual(limiter.take('a', 0), null);
+  assert.strictEqual(limiter.take('a', 0), 5, 'one token comes back every 5s');
+  assert.strictEqual(limiter.take('b', 0), null, 'callers have their own buckets');
+  assert.strictEqual(limiter.take('a', 4000), 1);
+  assert.strictEqual(limiter.take('a', 5000), null);
+});
+
+test('ConcurrencyLimiter', async (t) => {
+  await t.test('queues past the limit and starts in arrival order', () => {
+    const limiter = new ConcurrencyLimiter(1, 'wait', 2);
+    const started = [];
+    const admit = (id) => limiter.admit(id, () => started.push(id));
+    assert.strictEqual(admit('a'), 'started');
+    assert.strictEqual(admit('b'), 'queued');
+    assert.strictEqual(admit('c'), 'queued');
+    assert.strictEqual(admit('d'), 'full');
+    assert.deepStrictEqual([limiter.active, limiter.queued], [1, 2]);
+
+    limiter.release('b');
+    limiter.release('a');
+    assert.deepStrictEqual(started, ['a', 'c']);
+    assert.deepStrictEqual([limiter.active, limiter.queued], [1, 0]);
+    limiter.release('c');
+    assert.strictEqual(limiter.active, 0);
+  });
+
+  await t.test('reject turns requests away instead of queueing', () => {
+    const limiter = new ConcurrencyLimiter(1, 'reject');
+    assert.strictEqual(limiter.admit('a', () => {}), 'started');
+    assert.strictEqual(limiter.admit('b', () => {}), 'full');
+  });
+});
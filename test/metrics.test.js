@@ -0,0 +1,59 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const { TrafficStats, formatPrometheus } = require('../dist/metrics');
+
+/** The fields of an Exchange that TrafficStats reads */
+const exchange = (fields) => ({ status: 200, bytesIn: 0, bytesOut: 0, duration: 10, ...fields });
+
+test('TrafficStats', () => {
+  const stats = new TrafficStats();
+  for (let ms = 1; ms <= 100; ms++) stats.add(exchange({ duration: ms, bytesOut: 10 }));
+  stats.add(exchange({ route: '/api/*', status: 502, failure: 'error', bytesIn: 5, duration: 40 }));
+  stats.add(exchange({ route: '/api/*', status: 504, failure: 'timeout', duration: 25_000 }));
+  stats.add(exchange({ status: 0, duration: 3 }));
+  stats.reject();
+
+  const snapshot = stats.snapshot();
+  assert.strictEqual(snapshot.requests, 103);
+  assert.strictEqual(snapshot.rejected, 1);
+  assert.deepStrictEqual(snapshot.status, { '1xx': 0, '2xx': 100, '3xx': 0, '4xx': 0, '5xx': 2 });
+  assert.deepStrictEqual([snapshot.bytesIn, snapshot.bytesOut, snapshot.errors, snapshot.timeouts], [5, 1000, 1, 1]);
+  assert.deepStrictEqual(Object.keys(snapshot.routes), ['default', '/api/*']);
+  assert.deepStrictEqual(snapshot.routes.default.latency, { p50: 50, p95: 95, p99: 99 });
+  assert.strictEqual(snapshot.routes['/api/*'].duration, 25_040);
+  assert.ok(snapshot.since <= Date.now());
+});
+
+test('TrafficStats latency covers the most recent 1000 requests', () => {
+  const stats = new TrafficStats();
+  for (let i = 0; i < 1000; i++) stats.add(exchange({ duration: 1000 }));
+  for (let i = 0; i < 1000; i++) stats.add(exchange({ duration: 5 }));
+  assert.deepStrictEqual(stats.snapshot().latency, { p50: 5, p95: 5, p99: 5 });
+});
+
+test('formatPrometheus', () => {
+  const stats = new TrafficStats();
+  stats.add(exchange({ route: '/api/*', status: 201, bytesIn: 3, bytesOut: 7, duration: 250 }));
+  stats.reject();
+  const text = formatPrometheus([{ name: 'my "app"', stats: stats.snapshot() }]);
+  const base = 'tunnel="my \\"app\\"",route="/api/*"';
+
+  assert.ok(text.endsWith('\n'));
+  assert.ok(text.startsWith('# HELP tunnrl_requests_total Requests answered, by status class\n# TYPE tunnrl_requests_total counter\n'));
+  for (const line of [
+    `tunnrl_requests_total{${base},status_class="2xx"} 1`,
+    `tunnrl_requests_total{${base},status_class="5xx"} 0`,
+    '# TYPE tunnrl_request_duration_seconds summary',
+    `tunnrl_request_duration_seconds{${base},quantile="0.99"} 0.25`,
+    `tunnrl_request_duration_seconds_sum{${base}} 0.25`,
+    `tunnrl_request_duration_seconds_count{${base}} 1`,
+    `tunnrl_received_bytes_total{${base}} 3`,
+    `tunnrl_sent_bytes_total{${base}} 7`,
+    `tunnrl_upstream_errors_total{${base}} 0`,
+    `tunnrl_upstream_timeouts_total{${base}} 0`,
+    'tunnrl_rejected_total{tunnel="my \\"app\\""} 1',
+  ]) {
+    assert.ok(text.split('\n').includes(line), line);
+  }
+});
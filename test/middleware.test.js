@@ -0,0 +1,51 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const tunnrl = require('../dist/api');
+const { listen, startRelay, request } = require('./helpers');
+
+test('middleware', async (t) => {
+  const relay = await startRelay();
+  const local = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => res.end(`local saw ${body}`));
+  });
+  const port = await listen(local);
+  const tunnel = await tunnrl({ port, server: `ws://127.0.0.1:${relay.port}` });
+  const host = new URL(tunnel.url).host;
+  const rejected = [];
+  tunnel.on('rejected', (rejection) => rejected.push(rejection));
+  tunnel.use((req, next) => {
+    if (req.path === '/health') return { status: 200, body: 'ok' };
+    return next({ ...req, body: Buffer.from(req.body.toString().toUpperCase()) });
+  });
+  tunnel.use(async (req, next) => {
+    const res = await next();
+    return { ...res, headers: { ...res.headers, 'x-middleware': 'yes' } };
+  });
+  t.after(async () => {
+    await tunnel.close();
+    local.close();
+    await relay.close();
+  });
+
+  await t.test('can answer without calling the local service', async () => {
+    const res = await request(relay.port, { host, path: '/health' });
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.body.toString(), 'ok');
+  });
+
+  await t.test('can change the request and the response', async () => {
+    const res = await request(relay.port, { host, method: 'POST', body: 'quiet' });
+    assert.strictEqual(res.body.toString(), 'local saw QUIET');
+    assert.strictEqual(res.headers['x-middleware'], 'yes');
+  });
+
+  await t.test('refuses bodies too large to hold, without buffering them', async () => {
+    const res = await request(relay.port, { host, method: 'POST', body: Buffer.alloc(11 * 1024 * 1024) });
+    assert.strictEqual(res.status, 413);
+    assert.strictEqual(rejected.at(-1).cause, 'too-large');
+  });
+});
@@ -0,0 +1,134 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const { parseResilience, retryDelay, errorResponse, describeResilience, DEFAULT_RESILIENCE } = require('../dist/resilience');
+const { streamToLocal } = require('../dist/forward');
+const { localUpstream } = require('../dist/routes');
+const { freePort, listen } = require('./helpers');
+
+test('parseResilience converts seconds and fills in defaults', () => {
+  assert.deepStrictEqual(parseResilience({}), DEFAULT_RESILIENCE);
+  assert.deepStrictEqual(parseResilience({ timeout: '60', retries: '3', hold: 0.5 }), { timeout: 60_000, retries: 3, hold: 500 });
+  assert.throws(() => parseResilience({ timeout: 0 }), /timeout must be a positive/);
+  assert.throws(() => parseResilience({ hold: -1 }), /hold time must be a non-negative/);
+  assert.throws(() => parseResilience({ retries: '1.5' }), /Retries must be a whole number/);
+  assert.strictEqual(describeResilience(parseResilience({ retries: 1, hold: 10 })), '1 retry + hold 10s');
+});
+
+test('retryDelay', async (t) => {
+  const policy = { timeout: 25_000, retries: 3, hold: 2000 };
+
+  await t.test('keeps trying any method during the hold', () => {
+    assert.strictEqual(retryDelay(policy, 'POST', 0, 0), 500);
+    assert.strictEqual(retryDelay(policy, 'POST', 0, 1800), 200);
+  });
+
+  await t.test('then retries idempotent methods only, backing off', () => {
+    assert.strictEqual(retryDelay(policy, 'POST', 0, 2000), null);
+    assert.deepStrictEqual([0, 1, 2].map((n) => retryDelay(policy, 'get', n, 2000)), [250, 500, 1000]);
+    assert.strictEqual(retryDelay(policy, 'GET', 3, 2000), null);
+    assert.strictEqual(retryDelay({ ...policy, retries: 10 }, 'GET', 8, 2000), 4000);
+  });
+});
+
+test('errorResponse', async (t) => {
+  const err = { state: 'down', message: 'Could not connect to localhost:3000', upstream: 'localhost:3000', attempts: 3, waited: 1200 };
+
+  await t.test('gives API clients JSON', () => {
+    const res = errorResponse(err, { accept: 'application/json' });
+    assert.strictEqual(res.status, 502);
+    assert.strictEqual(res.headers['content-type'], 'application/json');
+    assert.deepStrictEqual(JSON.parse(res.body), {
+      error: 'Bad Gateway', message: err.message, upstream: 'localhost:3000', state: 'down', attempts: 3,
+    });
+    assert.strictEqual(res.headers['content-length'], String(res.body.length));
+  });
+
+  await t.test('gives browsers a page that reloads while the service is down', () => {
+    const res = errorResponse(err, { accept: 'text/html,application/xhtml+xml' });
+    const page = res.body.toString();
+    assert.match(res.headers['content-type'], /^text\/html/);
+    assert.match(page, /Local service not running/);
+    assert.match(page, /http-equiv="refresh"/);
+    assert.match(page, /Tried 3 times over 1\.2s/);
+  });
+
+  await t.test('answers timeouts with 504 and no reload', () => {
+    const res = errorResponse({ ...err, state: 'timeout', attempts: 1 }, { accept: 'text/html' });
+    assert.strictEqual(res.status, 504);
+    assert.doesNotMatch(res.body.toString(), /refresh|Tried/);
+  });
+});
+
+/** Run one request through streamToLocal; resolves with the response and every `retrying` call */
+function forward(port, method, resilience, body) {
+  return new Promise((resolve) => {
+    const startMs = Date.now();
+    const retries = [];
+    const chunks = [];
+    let status = 0;
+    const local = streamToLocal(
+      localUpstream('127.0.0.1', port),
+      { requestId: 'r1', method, path: '/', headers: { accept: 'application/json' } },
+      {
+        head: (s) => { status = s; },
+        data: (chunk) => chunks.push(chunk),
+        retrying: (attempt) => retries.push({ attempt, at: Date.now() - startMs }),
+        end: () => resolve({ status, body: Buffer.concat(chunks).toString(), retries }),
+      },
+      { resilience }
+    );
+    if (body) local.write(Buffer.from(body));
+    local.end();
+  });
+}
+
+test('streamToLocal', async (t) => {
+  await t.test('holds a request until the local service comes up', async () => {
+    const port = await freePort();
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => res.end(`got ${req.method} ${body}`));
+    });
+    setTimeout(() => server.listen(port, '127.0.0.1'), 300);
+    try {
+      const res = await forward(port, 'POST', { ...DEFAULT_RESILIENCE, hold: 5000 }, 'payload');
+      assert.strictEqual(res.status, 200);
+      assert.strictEqual(res.body, 'got POST payload');
+      assert.ok(res.retries.length >= 1);
+    } finally {
+      server.close();
+    }
+  });
+
+  await t.test('still has every retry once the hold is over', async () => {
+    const port = await freePort();
+    const res = await forward(port, 'GET', { ...DEFAULT_RESILIENCE, hold: 600, retries: 2 });
+    assert.strictEqual(res.status, 502);
+    assert.strictEqual(JSON.parse(res.body).state, 'down');
+    const afterHold = res.retries.filter((retry) => retry.at >= 600);
+    assert.strictEqual(afterHold.length, 2);
+  });
+
+  await t.test('does not retry a refused POST without a hold', async () => {
+    const port = await freePort();
+    const res = await forward(port, 'POST', { ...DEFAULT_RESILIENCE, retries: 3 }, 'x');
+    assert.strictEqual(res.status, 502);
+    assert.strictEqual(res.retries.length, 0);
+  });
+
+  await t.test('answers 504 when the service is too slow to start a response', async () => {
+    const server = http.createServer((req, res) => setTimeout(() => res.end('late'), 500));
+    const port = await listen(server);
+    try {
+      const res = await forward(port, 'GET', { ...DEFAULT_RESILIENCE, timeout: 100 });
+      assert.strictEqual(res.status, 504);
+      assert.strictEqual(JSON.parse(res.body).state, 'timeout');
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,67 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const { parseRoute, parseUpstream, localUpstream, Router, formatRule, connectHost } = require('../dist/routes');
+
+test('parseUpstream', () => {
+  assert.deepStrictEqual(parseUpstream('4000'), { host: 'localhost', port: 4000 });
+  assert.deepStrictEqual(parseUpstream('127.0.0.1:4000'), { host: '127.0.0.1', port: 4000 });
+  assert.deepStrictEqual(parseUpstream('https://localhost'), { host: 'localhost', port: 443, secure: true });
+  assert.deepStrictEqual(parseUpstream('http://[::1]:8080/'), { host: '[::1]', port: 8080 });
+  assert.throws(() => parseUpstream('ftp://localhost:21'), /Invalid upstream/);
+  assert.throws(() => parseUpstream('70000'), /Invalid upstream/);
+  assert.deepStrictEqual(localUpstream('https://localhost', 8443), { host: 'localhost', port: 8443, secure: true });
+});
+
+test('parseRoute', () => {
+  assert.deepStrictEqual(parseRoute('/api/* -> 4000 strip'), {
+    upstream: { host: 'localhost', port: 4000 },
+    path: '/api/*',
+    stripPrefix: true,
+  });
+  assert.deepStrictEqual(parseRoute('admin.example.com -> localhost:8000'), {
+    upstream: { host: 'localhost', port: 8000 },
+    host: 'admin.example.com',
+  });
+  assert.deepStrictEqual(parseRoute('* -> 5000'), { upstream: { host: 'localhost', port: 5000 } });
+  assert.throws(() => parseRoute('/api'), /expected "<path or host> -> <upstream>"/);
+  assert.throws(() => parseRoute('/api -> 4000 fast'), /unknown flag "fast"/);
+  assert.throws(() => parseRoute('/a*b -> 4000'), /may only end in \*/);
+  assert.throws(() => parseRoute('a.*.com -> 4000'), /may only start with \*\./);
+});
+
+test('Router', () => {
+  const api = { host: 'localhost', port: 4000 };
+  const admin = { host: 'localhost', port: 8000 };
+  const web = { host: 'localhost', port: 3000 };
+  const router = new Router([
+    { host: 'admin.example.com', upstream: admin },
+    { path: '/api/*', upstream: api, stripPrefix: true },
+  ], web);
+  const headers = { host: 'app.example.com' };
+
+  assert.strictEqual(router.routed, true);
+  assert.deepStrictEqual(router.resolve('/api/users?page=2', headers), {
+    upstream: api, path: '/users?page=2', rule: router.rules[1],
+  });
+  assert.strictEqual(router.resolve('/api', headers).path, '/');
+  assert.deepStrictEqual(router.resolve('/apix', headers), { upstream: web, path: '/apix' });
+  assert.strictEqual(router.resolve('/api/x', { host: 'Admin.Example.com:443' }).upstream, admin);
+  assert.strictEqual(router.resolve('/', { host: 'a', 'x-forwarded-host': 'admin.example.com' }).upstream, admin);
+
+  const wildcard = new Router([{ host: '*.example.com', upstream: admin }], null);
+  assert.strictEqual(wildcard.routed, true);
+  assert.strictEqual(wildcard.resolve('/', { host: 'x.example.com' }).upstream, admin);
+  assert.strictEqual(wildcard.resolve('/', { host: 'example.org' }), null);
+
+  assert.strictEqual(new Router([], web).routed, false);
+  assert.throws(() => new Router([{ path: 'api', upstream: api }], null), /Invalid route "#1"/);
+});
+
+test('formatRule and connectHost', () => {
+  assert.strictEqual(formatRule(undefined), 'default');
+  assert.strictEqual(formatRule({ upstream: { host: 'h', port: 1 } }), '*');
+  assert.strictEqual(formatRule(parseRoute('admin.example.com/* -> 8000')), 'admin.example.com/*');
+  assert.strictEqual(connectHost({ host: '[::1]', port: 80 }), '::1');
+  assert.strictEqual(connectHost({ host: 'localhost', port: 80 }), 'localhost');
+});
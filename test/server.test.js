@@ -0,0 +1,81 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const tunnrl = require('../dist/api');
+const { listen, startRelay, request, rawClient } = require('./helpers');
+
+test('relay', async (t) => {
+  const relay = await startRelay();
+  t.after(() => relay.close());
+
+  await t.test('forwards a request through a client and back', async () => {
+    const local = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        res.writeHead(201, { 'x-seen': `${req.method} ${req.url}` });
+        res.end(`echo:${body}`);
+      });
+    });
+    const port = await listen(local);
+    const tunnel = await tunnrl({ port, server: `ws://127.0.0.1:${relay.port}` });
+    try {
+      const res = await request(relay.port, { host: new URL(tunnel.url).host, method: 'POST', path: '/a?b=1', body: 'hi' });
+      assert.strictEqual(res.status, 201);
+      assert.strictEqual(res.headers['x-seen'], 'POST /a?b=1');
+      assert.strictEqual(res.body.toString(), 'echo:hi');
+    } finally {
+      await tunnel.close();
+      local.close();
+    }
+  });
+
+  await t.test('answers 404 for a subdomain with no tunnel', async () => {
+    const res = await request(relay.port, { host: `nobody.localhost:${relay.port}` });
+    assert.strictEqual(res.status, 404);
+  });
+
+  // A client that answers every request with `frames(requestId)`
+  const misbehaving = async (frames) => {
+    const client = await rawClient(relay);
+    client.ws.on('message', (data) => {
+      const msg = JSON.parse(data.toString());
+      if (msg.type === 'request') for (const frame of frames(msg.requestId)) client.ws.send(JSON.stringify(frame));
+    });
+    return client;
+  };
+
+  for (const [name, frames] of [
+    ['an out-of-range status', (requestId) => [{ type: 'response-start', requestId, status: 42, headers: {} }]],
+    ['a non-numeric status', (requestId) => [{ type: 'response', requestId, status: 'ok', headers: {}, body: '' }]],
+    ['an invalid header name', (requestId) => [{ type: 'response-start', requestId, status: 200, headers: { 'bad name': 'x' } }]],
+    ['an invalid header value', (requestId) => [{ type: 'response', requestId, status: 200, headers: { 'x-a': 'a\nb' }, body: '' }]],
+  ]) {
+    await t.test(`answers 502 to a response with ${name}, and keeps running`, async () => {
+      const client = await misbehaving(frames);
+      try {
+        const res = await request(relay.port, { host: client.host });
+        assert.strictEqual(res.status, 502);
+        assert.strictEqual(res.headers['bad name'], undefined);
+      } finally {
+        client.ws.close();
+      }
+    });
+  }
+
+  await t.test('cuts off a response whose head is sent twice', async () => {
+    const client = await misbehaving((requestId) => [
+      { type: 'response-start', requestId, status: 200, headers: {} },
+      { type: 'response-start', requestId, status: 500, headers: {} },
+    ]);
+    try {
+      await assert.rejects(request(relay.port, { host: client.host }));
+      // The relay is still up for everyone else
+      const res = await request(relay.port, { host: `nobody.localhost:${relay.port}` });
+      assert.strictEqual(res.status, 404);
+    } finally {
+      client.ws.close();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+'use strict';
+const test = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const { parseVerifyRule, checkVerifyRule, SignatureVerifier } = require('../dist/verify');
+
+const hmac = (secret, data, encoding = 'hex') => crypto.createHmac('sha256', secret).update(data).digest(encoding);
+const now = () => String(Math.floor(Date.now() / 1000));
+
+/** Check `body` as one chunk, the way forward.ts feeds it */
+function verify(verifier, headers, body) {
+  const check = verifier.begin(headers);
+  check.update(body);
+  return check.finish(body);
+}
+
+test('parseVerifyRule', () => {
+  assert.deepStrictEqual(parseVerifyRule('stripe:whsec_abc'), { provider: 'stripe', secret: 'whsec_abc' });
+  assert.deepStrictEqual(parseVerifyRule('GitHub:s:with:colons'), { provider: 'github', secret: 's:with:colons' });
+  assert.deepStrictEqual(parseVerifyRule('hmac:X-Signature:s3cret'), { provider: 'hmac', header: 'x-signature', secret: 's3cret' });
+  assert.throws(() => parseVerifyRule('whsec_abc'), /expected stripe:, github:, slack: or hmac:/);
+  assert.throws(() => parseVerifyRule('paypal:abc'), /expected stripe:, github:, slack: or hmac:/);
+  assert.throws(() => parseVerifyRule('slack:'), /the secret is empty/);
+  assert.throws(() => parseVerifyRule('hmac:s3cret'), /expected hmac:<header>:<secret>/);
+  assert.throws(() => checkVerifyRule({ provider: 'hmac', secret: 'x' }), /Invalid verify rule "hmac:…"/);
+});
+
+test('SignatureVerifier', async (t) => {
+  const body = Buffer.from(JSON.stringify({ type: 'checkout.session.completed', action: 'opened' }));
+  const verifier = new SignatureVerifier([
+    { provider: 'stripe', secret: 'whsec' },
+    { provider: 'github', secret: 'gh' },
+    { provider: 'slack', secret: 'sl' },
+    { provider: 'hmac', header: 'x-signature', secret: 'hm' },
+  ]);
+
+  await t.test('describe', () => {
+    assert.strictEqual(verifier.describe(), 'Stripe + GitHub + Slack + HMAC');
+  });
+
+  await t.test('stripe', () => {
+    const ts = now();
+    const good = `t=${ts},v1=${'0'.repeat(64)},v1=${hmac('whsec', `${ts}.${body}`)}`;
+    assert.deepStrictEqual(verify(verifier, { 'stripe-signature': good }, body), {
+      provider: 'stripe', valid: true, event: 'checkout.session.completed',
+    });
+    const stale = String(Number(ts) - 600);
+    const old = `t=${stale},v1=${hmac('whsec', `${stale}.${body}`)}`;
+    assert.strictEqual(verify(verifier, { 'stripe-signature': old }, body).reason, 'Timestamp is more than 5 minutes off');
+    assert.strictEqual(verify(verifier, { 'stripe-signature': `v1=${hmac('whsec', body)}` }, body).reason, 'Malformed Stripe-Signature header');
+  });
+
+  await t.test('github', () => {
+    const headers = { 'x-github-event': 'pull_request', 'x-hub-signature-256': `sha256=${hmac('gh', body)}` };
+    assert.deepStrictEqual(verify(verifier, headers, body), { provider: 'github', valid: true, event: 'pull_request.opened' });
+    const sha1 = `sha1=${crypto.createHmac('sha1', 'gh').update(body).digest('hex')}`;
+    assert.strictEqual(verify(verifier, { 'x-hub-signature': sha1 }, body).valid, true);
+    const tampered = verify(verifier, headers, Buffer.from('{}'));
+    assert.deepStrictEqual([tampered.valid, tampered.reason], [false, 'Signature does not match']);
+  });
+
+  await t.test('slack', () => {
+    const ts = now();
+    const form = Buffer.from('command=%2Fdeploy&text=prod');
+    const headers = {
+      'content-type': 'application/x-www-form-urlencoded',
+      'x-slack-request-timestamp': ts,
+      'x-slack-signature': `v0=${hmac('sl', `v0:${ts}:${form}`)}`,
+    };
+    assert.deepStrictEqual(verify(verifier, headers, form), { provider: 'slack', valid: true, event: '/deploy' });
+  });
+
+  await t.test('hmac in hex or base64', () => {
+    assert.strictEqual(verify(verifier, { 'x-signature': `sha256=${hmac('hm', body)}` }, body).valid, true);
+    assert.strictEqual(verify(verifier, { 'x-signature': hmac('hm', body, 'base64') }, body).valid, true);
+    assert.strictEqual(verify(verifier, { 'x-signature': hmac('nope', body, 'base64') }, body).valid, false);
+  });
+
+  await t.test('body checked in chunks', () => {
+    const check = verifier.begin({ 'x-signature': hmac('hm', body) });
+    check.update(body.subarray(0, 10));
+    check.update(body.subarray(10));
+    assert.strictEqual(check.finish(body.subarray(0, 10)).valid, true);
+  });
+
+  await t.test('no signature header', () => {
+    assert.deepStrictEqual(verify(verifier, {}, body), {
+      provider: 'stripe',
+      valid: false,
+      reason: 'No signature header (expected Stripe-Signature, X-Hub-Signature-256, X-Slack-Signature or X-Signature)',
+    });
+    const single = new SignatureVerifier([{ provider: 'github', secret: 'gh' }]);
+    assert.strictEqual(verify(single, {}, body).reason, 'No X-Hub-Signature-256 header');
+  });
+});